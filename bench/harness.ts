@@ -0,0 +1,75 @@
+import { performance } from "perf_hooks";
+
+/**
+ * A minimal, dependency-free harness of micro-benchmarks.
+ *
+ * Each benchmark runs a fixed number of warm-up rounds and then a fixed number of measured samples,
+ * and reports the median time per operation, so that results are comparable between runs on the same machine.
+ */
+
+const warmUpRounds = 20;
+const samples = 30;
+
+/**
+ * A value consumed by benchmarks so that the engine does not eliminate their bodies as dead code.
+ */
+export let sink: unknown;
+
+export interface Benchmark {
+    name: string;
+
+    /**
+     * Performs the operation once for each element of the inputs, and returns something derived from the results.
+     */
+    run: () => unknown;
+}
+
+export interface Measurement {
+    name: string;
+    nanosecondsPerOperation: number;
+    deviation: number;
+}
+
+/**
+ * Prints the given `line` to the standard output.
+ */
+export function print(line: string): void {
+    process.stdout.write(`${line}\n`);
+}
+
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+/**
+ * Measures the given `benchmark`, where each run performs `operations` operations.
+ */
+export function measure(benchmark: Benchmark, operations: number): Measurement {
+    for (let i = 0; i < warmUpRounds; i++)
+        sink = benchmark.run();
+
+    const times: number[] = [];
+    for (let i = 0; i < samples; i++) {
+        const start = performance.now();
+        sink = benchmark.run();
+        times.push((performance.now() - start) * 1e6 / operations);
+    }
+
+    const center = median(times);
+    const deviation = median(times.map(time => Math.abs(time - center))) / center;
+    return { name: benchmark.name, nanosecondsPerOperation: center, deviation };
+}
+
+/**
+ * Measures the given benchmarks in order and prints the results.
+ */
+export function suite(title: string, operations: number, benchmarks: Benchmark[]): void {
+    print(`\n${title}`);
+    for (const benchmark of benchmarks) {
+        const { name, nanosecondsPerOperation, deviation } = measure(benchmark, operations);
+        const time = nanosecondsPerOperation.toFixed(2).padStart(10);
+        print(`  ${name.padEnd(40)}${time} ns/op  ±${(deviation * 100).toFixed(1)}%`);
+    }
+}
@@ -0,0 +1,89 @@
+import {
+    FpTsOption, fromFpTs, fromJackson, fromMaybe, parseJackson, stringifyJackson, toFpTs, toJackson, toMaybe,
+} from "./adapters";
+import { NullPayloadError } from "./errors";
+import { Optional } from "./optional";
+
+/**
+ * A minimal purify-style `Maybe` for testing.
+ */
+class Maybe<T> {
+    constructor(private readonly value: T | undefined, private readonly just: boolean) {}
+
+    isJust(): boolean {
+        return this.just;
+    }
+
+    extract(): T | undefined {
+        return this.value;
+    }
+}
+
+const Just = <T>(value: T): Maybe<T> => new Maybe(value, true);
+const Nothing: Maybe<never> = new Maybe<never>(undefined, false);
+
+describe("adapters", () => {
+    const payload: string = "foo";
+    const sutPresent: Optional<string> = Optional.ofNonNull(payload);
+    const sutEmpty: Optional<string> = Optional.empty();
+
+    describe("fromFpTs / toFpTs", () => {
+        it("converts Some and None into Optionals.", () => {
+            expect(fromFpTs({ _tag: "Some", value: payload }).get()).toBe(payload);
+            expect(fromFpTs<string>({ _tag: "None" }).isEmpty()).toBe(true);
+        });
+
+        it("throws NullPayloadError for Some of null.", () => {
+            expect(() => fromFpTs({ _tag: "Some", value: null })).toThrow(NullPayloadError);
+        });
+
+        it("converts Optionals into Some and None.", () => {
+            const some: FpTsOption<string> = toFpTs(sutPresent);
+            expect(some).toStrictEqual({ _tag: "Some", value: payload });
+            expect(toFpTs(sutEmpty)).toStrictEqual({ _tag: "None" });
+        });
+    });
+
+    describe("fromMaybe / toMaybe", () => {
+        it("converts Just and Nothing into Optionals.", () => {
+            expect(fromMaybe(Just(payload)).get()).toBe(payload);
+            expect(fromMaybe<string>(Nothing).isEmpty()).toBe(true);
+        });
+
+        it("converts Optionals into Just and Nothing.", () => {
+            const just: Maybe<string> = toMaybe(sutPresent, { just: Just, nothing: Nothing });
+            expect(just.extract()).toBe(payload);
+            expect(toMaybe(sutEmpty, { just: Just, nothing: Nothing })).toBe(Nothing);
+        });
+    });
+
+    describe("fromJackson / toJackson", () => {
+        it("converts a value, null and an absent property into Optionals.", () => {
+            expect(fromJackson(payload).get()).toBe(payload);
+            expect(fromJackson(null).isEmpty()).toBe(true);
+            expect(fromJackson(undefined).isEmpty()).toBe(true);
+        });
+
+        it("converts Optionals into a value or null.", () => {
+            expect(toJackson(sutPresent)).toBe(payload);
+            expect(toJackson(sutEmpty)).toBeNull();
+        });
+    });
+
+    describe("stringifyJackson / parseJackson", () => {
+        interface Account {
+            id: number;
+            email: Optional<string>;
+        }
+
+        it("round-trips Optionals in the format of Jackson with Jdk8Module.", () => {
+            const accounts: Account[] = [{ id: 1, email: sutPresent }, { id: 2, email: sutEmpty }];
+            const text = stringifyJackson(accounts);
+            expect(text).toBe(`[{"id":1,"email":"${payload}"},{"id":2,"email":null}]`);
+
+            const actual = parseJackson<Account[]>(text, ["*.email"]);
+            expect(actual[0].email.get()).toBe(payload);
+            expect(actual[1].email.isEmpty()).toBe(true);
+        });
+    });
+});
@@ -0,0 +1,138 @@
+import { Optional } from "./optional.js";
+import { registerModule } from "./stack.js";
+import { Option, OptionalSelector } from "./types.js";
+
+registerModule();
+
+/**
+ * Adapters between `Optional` and other representations of optional values,
+ * namely `Option` of fp-ts, `Maybe` of purify-style libraries and `java.util.Optional` serialized by Jackson.
+ *
+ * They are typed structurally and do not depend on those libraries at runtime.
+ * Every conversion goes through `Option`, that is, `Optional.from` and `Optional#toOption`.
+ */
+
+/**
+ * A structural type of `None` of fp-ts.
+ */
+export interface FpTsNone {
+    readonly _tag: "None";
+}
+
+/**
+ * A structural type of `Some` of fp-ts.
+ */
+export interface FpTsSome<T> {
+    readonly _tag: "Some";
+    readonly value: T;
+}
+
+/**
+ * A structural type of `Option` of fp-ts.
+ */
+export type FpTsOption<T> = FpTsNone | FpTsSome<T>;
+
+/**
+ * A structural type of `Maybe` of purify-style libraries, which is read by `fromMaybe`.
+ */
+export interface MaybeLike<T> {
+    isJust(): boolean;
+    extract(): T | null | undefined;
+}
+
+/**
+ * Constructors of `Maybe` of purify-style libraries, which are used by `toMaybe`.
+ * For purify, pass `{ just: Just, nothing: Nothing }`.
+ */
+export interface MaybeConstructors<T, M> {
+    just: (value: T) => M;
+    nothing: M;
+}
+
+/**
+ * Converts the given `Option` of fp-ts into an `Optional`.
+ *
+ * @param option an `Option` of fp-ts
+ * @throws {NullPayloadError} when the given `option` is `Some` of `null` or `undefined`.
+ */
+export function fromFpTs<T>(option: FpTsOption<T>): Optional<T> {
+    return Optional.from(option._tag === "Some" ? { kind: "present", value: option.value } : { kind: "empty" });
+}
+
+/**
+ * Converts the given `optional` into an `Option` of fp-ts.
+ *
+ * @param optional an `Optional`
+ */
+export function toFpTs<T>(optional: Optional<T>): FpTsOption<T> {
+    const option: Option<T> = optional.toOption();
+    return option.kind === "present" ? { _tag: "Some", value: option.value } : { _tag: "None" };
+}
+
+/**
+ * Converts the given `Maybe` of a purify-style library into an `Optional`.
+ *
+ * @param maybe a `Maybe`
+ * @throws {NullPayloadError} when the given `maybe` is `Just` of `null` or `undefined`.
+ */
+export function fromMaybe<T>(maybe: MaybeLike<T>): Optional<T> {
+    return Optional.from(maybe.isJust() ? { kind: "present", value: maybe.extract() as T } : { kind: "empty" });
+}
+
+/**
+ * Converts the given `optional` into a `Maybe` of a purify-style library with the given `constructors`.
+ *
+ * @param optional an `Optional`
+ * @param constructors constructors of `Maybe`
+ */
+export function toMaybe<T, M>(optional: Optional<T>, constructors: MaybeConstructors<T, M>): M {
+    const option: Option<T> = optional.toOption();
+    return option.kind === "present" ? constructors.just(option.value) : constructors.nothing;
+}
+
+/**
+ * Converts a value of `java.util.Optional` serialized by Jackson into an `Optional`.
+ *
+ * Jackson with `Jdk8Module` serializes a present `java.util.Optional` as its value, and an empty one as `null`,
+ * or omits the property when `JsonInclude.Include.NON_ABSENT` is configured.
+ * Therefore `null` and `undefined` are converted into an empty `Optional`.
+ *
+ * @param value a value of a property deserialized from JSON
+ */
+export function fromJackson<T>(value: T | null | undefined): Optional<T> {
+    return Optional.from(value !== null && value !== undefined ? { kind: "present", value } : { kind: "empty" });
+}
+
+/**
+ * Converts the given `optional` into a value which Jackson with `Jdk8Module` deserializes as `java.util.Optional`.
+ *
+ * @param optional an `Optional`
+ */
+export function toJackson<T>(optional: Optional<T>): T | null {
+    const option: Option<T> = optional.toOption();
+    return option.kind === "present" ? option.value : null;
+}
+
+/**
+ * Serializes the given `value` into JSON which Jackson with `Jdk8Module` deserializes,
+ * serializing `Optional`s as `java.util.Optional`.
+ * It is equivalent to `Optional.serialize` in `"bare"` mode.
+ *
+ * @param value a value to serialize
+ * @param space indentation passed to `JSON.stringify`
+ */
+export function stringifyJackson(value: unknown, space?: string | number): string {
+    return Optional.serialize(value, { mode: "bare", space });
+}
+
+/**
+ * Parses the given JSON serialized by Jackson with `Jdk8Module`,
+ * restoring `Optional`s at the locations selected by the given `selector`.
+ * It is equivalent to `Optional.deserialize` in `"bare"` mode.
+ *
+ * @param text JSON text
+ * @param selector path patterns or a predicate which selects locations of `java.util.Optional`
+ */
+export function parseJackson<T = unknown>(text: string, selector: OptionalSelector): T {
+    return Optional.deserialize(text, selector, { mode: "bare" });
+}
@@ -0,0 +1,129 @@
+import { AsyncOptional } from "./asyncOptional";
+import { Optional } from "./optional";
+
+describe("AsyncOptional", () => {
+    const payload: string = "foo";
+    const sutPresent: AsyncOptional<string> = AsyncOptional.of(Optional.ofNonNull(payload));
+    const sutEmpty: AsyncOptional<string> = AsyncOptional.empty();
+
+    describe("#then", () => {
+        it("resolves to the underlying Optional when it is awaited.", async () => {
+            const actual = await sutPresent;
+            expect(actual.get()).toBe(payload);
+        });
+
+        it("resolves to an empty Optional when it is empty.", async () => {
+            const actual = await sutEmpty;
+            expect(actual.isEmpty()).toBe(true);
+        });
+
+        it("propagates a rejection of the underlying promise.", async () => {
+            const sut = AsyncOptional.from<string>(Promise.reject(new Error("failed")));
+            await expect(sut.isPresent()).rejects.toThrow("failed");
+        });
+    });
+
+    describe("#mapAsync", () => {
+        it("maps the payload with the awaited result of the mapper when it is present.", async () => {
+            const actual = await sutPresent.mapAsync(x => Promise.resolve(x.length));
+            expect(actual.get()).toBe(payload.length);
+        });
+
+        it("returns an empty Optional when the mapper resolves to null.", async () => {
+            const actual = await sutPresent.mapAsync(x => Promise.resolve(null));
+            expect(actual.isEmpty()).toBe(true);
+        });
+
+        it("does not call the mapper when it is empty.", async () => {
+            const mapper = jest.fn((x: string) => x.length);
+            const actual = await sutEmpty.mapAsync(mapper);
+            expect(actual.isEmpty()).toBe(true);
+            expect(mapper).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("#flatMapAsync", () => {
+        it("returns the awaited result of the mapper when it is present.", async () => {
+            const actual = await sutPresent.flatMapAsync(x => Promise.resolve(Optional.ofNonNull(x.length)));
+            expect(actual.get()).toBe(payload.length);
+        });
+
+        it("accepts a mapper which returns an AsyncOptional.", async () => {
+            const actual = await sutPresent.flatMapAsync(x => AsyncOptional.empty<number>());
+            expect(actual.isEmpty()).toBe(true);
+        });
+
+        it("returns an empty Optional when it is empty.", async () => {
+            const actual = await sutEmpty.flatMapAsync(x => Promise.resolve(Optional.ofNonNull(x.length)));
+            expect(actual.isEmpty()).toBe(true);
+        });
+    });
+
+    describe("#filterAsync", () => {
+        it("keeps the payload when the predicate resolves to true.", async () => {
+            const actual = await sutPresent.filterAsync(x => Promise.resolve(x.length > 0));
+            expect(actual.get()).toBe(payload);
+        });
+
+        it("returns an empty Optional when the predicate resolves to false.", async () => {
+            const actual = await sutPresent.filterAsync(x => Promise.resolve(x.length === 0));
+            expect(actual.isEmpty()).toBe(true);
+        });
+    });
+
+    describe("#orAsync", () => {
+        const another = "bar";
+
+        it("returns the current Optional when it is present.", async () => {
+            const actual = await sutPresent.orAsync(() => Promise.resolve(Optional.ofNonNull(another)));
+            expect(actual.get()).toBe(payload);
+        });
+
+        it("returns the awaited result of the supplier when it is empty.", async () => {
+            const actual = await sutEmpty.orAsync(() => Promise.resolve(Optional.ofNonNull(another)));
+            expect(actual.get()).toBe(another);
+        });
+    });
+
+    describe("#orElseGetAsync", () => {
+        const another = "bar";
+
+        it("resolves to the payload when it is present.", async () => {
+            await expect(sutPresent.orElseGetAsync(() => Promise.resolve(another))).resolves.toBe(payload);
+        });
+
+        it("resolves to the awaited result of the supplier when it is empty.", async () => {
+            await expect(sutEmpty.orElseGetAsync(() => Promise.resolve(another))).resolves.toBe(another);
+        });
+    });
+
+    describe("terminal operations", () => {
+        it("resolve to the payload when it is present.", async () => {
+            await expect(sutPresent.isPresent()).resolves.toBe(true);
+            await expect(sutPresent.get()).resolves.toBe(payload);
+            await expect(sutPresent.orElse("bar")).resolves.toBe(payload);
+            await expect(sutPresent.orNull()).resolves.toBe(payload);
+            await expect(sutPresent.orUndefined()).resolves.toBe(payload);
+        });
+
+        it("resolve to fallback values when it is empty.", async () => {
+            await expect(sutEmpty.isEmpty()).resolves.toBe(true);
+            await expect(sutEmpty.get()).rejects.toThrow(TypeError);
+            await expect(sutEmpty.orElse("bar")).resolves.toBe("bar");
+            await expect(sutEmpty.orNull()).resolves.toBe(null);
+            await expect(sutEmpty.orUndefined()).resolves.toBe(undefined);
+        });
+    });
+
+    describe("#sequence", () => {
+        it("returns a promise of a present Optional when the given Optional is present.", async () => {
+            const actual = await AsyncOptional.sequence(Optional.ofNonNull(Promise.resolve(payload)));
+            expect(actual.get()).toBe(payload);
+        });
+
+        it("returns a promise of an empty Optional when the given Optional is empty.", async () => {
+            const actual = await AsyncOptional.sequence(Optional.empty<Promise<string>>());
+            expect(actual.isEmpty()).toBe(true);
+        });
+    });
+});
@@ -0,0 +1,181 @@
+import { Optional } from "./optional.js";
+import { registerModule } from "./stack.js";
+
+registerModule();
+
+/**
+ * An asynchronous companion of `Optional`.
+ *
+ * `AsyncOptional<T>` is a *thenable* which eventually resolves to an `Optional<T>`,
+ * so it can be `await`ed directly to retrieve the resulting `Optional`.
+ * It is usually obtained from `Optional#mapAsync`, `Optional#flatMapAsync` or `Optional.fromPromise`,
+ * and provides the same asynchronous operations as `Optional` so that chains can cross `await` boundaries.
+ */
+export class AsyncOptional<T> implements PromiseLike<Optional<T>> {
+    private readonly promise: Promise<Optional<T>>;
+
+    private constructor(promise: PromiseLike<Optional<T>>) {
+        this.promise = Promise.resolve(promise);
+    }
+
+    /**
+     * Attaches callbacks for the resolution and/or rejection of the underlying `Optional`.
+     * This method makes `AsyncOptional` a thenable, so it can be `await`ed.
+     *
+     * @param onfulfilled a callback executed when the underlying `Optional` is resolved
+     * @param onrejected a callback executed when the underlying promise is rejected
+     */
+    then<U = Optional<T>, V = never>(
+        onfulfilled?: ((value: Optional<T>) => U | PromiseLike<U>) | null,
+        onrejected?: ((reason: any) => V | PromiseLike<V>) | null,
+    ): Promise<U | V> {
+        return this.promise.then(onfulfilled, onrejected);
+    }
+
+    /**
+     * Returns an async iterator which is used by `yield*` in an async generator passed to `Optional.genAsync`,
+     * which binds the payload of the resolved `Optional` as `Optional#bind` does.
+     */
+    async *bind(): AsyncGenerator<Optional<T>, T, undefined> {
+        return yield* (await this.promise).bind();
+    }
+
+    /**
+     * Returns a promise of whether the resolved `Optional` is present or not.
+     */
+    isPresent(): Promise<boolean> {
+        return this.promise.then(optional => optional.isPresent());
+    }
+
+    /**
+     * Returns a promise of whether the resolved `Optional` is empty or not.
+     */
+    isEmpty(): Promise<boolean> {
+        return this.promise.then(optional => optional.isEmpty());
+    }
+
+    /**
+     * Returns a promise of the payload.
+     * The promise is rejected with `NoSuchElementError` if the resolved `Optional` is empty.
+     *
+     * @param message a message of the error when the resolved `Optional` is empty
+     */
+    get(message?: string): Promise<T> {
+        return this.promise.then(optional => optional.get(message));
+    }
+
+    /**
+     * Maps a payload with a mapper which may return a promise.
+     *
+     * @param mapper a mapper to apply the payload, if present
+     * @see Optional#mapAsync
+     */
+    mapAsync<U>(mapper: (value: T) => U | PromiseLike<U>): AsyncOptional<NonNullable<U>> {
+        return AsyncOptional.from(this.promise.then(optional => optional.mapAsync(mapper)));
+    }
+
+    /**
+     * Maps a payload with a mapper which returns an `Optional` or a promise of `Optional`.
+     *
+     * @param mapper a mapper to apply the payload, if present
+     * @see Optional#flatMapAsync
+     */
+    flatMapAsync<U>(mapper: (value: T) => Optional<U> | PromiseLike<Optional<U>>): AsyncOptional<U> {
+        return AsyncOptional.from(this.promise.then(optional => optional.flatMapAsync(mapper)));
+    }
+
+    /**
+     * Filters a payload with a predicate which may return a promise.
+     *
+     * @param predicate a predicate to test the payload, if present
+     * @see Optional#filterAsync
+     */
+    filterAsync(predicate: (value: T) => boolean | PromiseLike<boolean>): AsyncOptional<T> {
+        return AsyncOptional.from(this.promise.then(optional => optional.filterAsync(predicate)));
+    }
+
+    /**
+     * If the resolved `Optional` is present, returns it as is,
+     * otherwise returns an `Optional` provided by the given `supplier`.
+     *
+     * @param supplier a supplier which may return a promise
+     * @see Optional#orAsync
+     */
+    orAsync(supplier: () => Optional<T> | PromiseLike<Optional<T>>): AsyncOptional<T> {
+        return AsyncOptional.from(this.promise.then(optional => optional.orAsync(supplier)));
+    }
+
+    /**
+     * Returns a promise of the payload if present, otherwise a promise of `another`.
+     *
+     * @param another an another value
+     */
+    orElse(another: T): Promise<T> {
+        return this.promise.then(optional => optional.orElse(another));
+    }
+
+    /**
+     * Returns a promise of the payload if present,
+     * otherwise a promise of the result provided by the given `supplier`.
+     *
+     * @param supplier a supplier of another value which may return a promise
+     * @see Optional#orElseGetAsync
+     */
+    orElseGetAsync(supplier: () => T | PromiseLike<T>): Promise<T> {
+        return this.promise.then(optional => optional.orElseGetAsync(supplier));
+    }
+
+    /**
+     * Returns a promise of the payload if present, otherwise a promise of `null`.
+     */
+    orNull(): Promise<T | null> {
+        return this.promise.then(optional => optional.orNull());
+    }
+
+    /**
+     * Returns a promise of the payload if present, otherwise a promise of `undefined`.
+     */
+    orUndefined(): Promise<T | undefined> {
+        return this.promise.then(optional => optional.orUndefined());
+    }
+
+    /**
+     * Returns an `AsyncOptional` which resolves to the `Optional` provided by the given promise.
+     *
+     * @param promise a promise (or a thenable) of an `Optional`
+     */
+    static from<T>(promise: PromiseLike<Optional<T>>): AsyncOptional<T> {
+        return new AsyncOptional(promise);
+    }
+
+    /**
+     * Returns an `AsyncOptional` which resolves to the given `optional`.
+     *
+     * @param optional an `Optional`
+     */
+    static of<T>(optional: Optional<T>): AsyncOptional<T> {
+        return new AsyncOptional(Promise.resolve(optional));
+    }
+
+    /**
+     * Returns an `AsyncOptional` which resolves to an empty `Optional`.
+     */
+    static empty<T>(): AsyncOptional<T> {
+        return AsyncOptional.of(Optional.empty<T>());
+    }
+
+    /**
+     * Turns an `Optional` of a promise inside out.
+     *
+     * If the given `optional` is present, returns a promise of an `Optional` of the awaited payload,
+     * otherwise returns a promise of an empty `Optional`.
+     *
+     * @param optional an `Optional` whose payload is a promise
+     */
+    static sequence<T>(optional: Optional<PromiseLike<T>>): Promise<Optional<T>> {
+        return optional.matches<Promise<Optional<T>>>({
+            present: promise => Promise.resolve(promise).then(value => Optional.ofNullable(value)),
+            empty: () => Promise.resolve(Optional.empty<T>()),
+        });
+    }
+}
@@ -0,0 +1,92 @@
+/**
+ * Returns whether the given two values are equal in terms of *SameValueZero*,
+ * which is the same algorithm as `Map` and `Set` use to compare their keys.
+ */
+export function sameValueZero(left: unknown, right: unknown): boolean {
+    return left === right || (left !== left && right !== right);
+}
+
+interface IdentityRegistry<K> {
+    get(key: K): number | undefined;
+    set(key: K, identity: number): unknown;
+}
+
+const identities = new WeakMap<object, number>();
+const symbolIdentities = new Map<symbol, number>();
+let nextIdentity = 1;
+
+function identityOf<K>(registry: IdentityRegistry<K>, key: K): number {
+    const known = registry.get(key);
+    if (known !== undefined)
+        return known;
+
+    const identity = nextIdentity++;
+    registry.set(key, identity);
+    return identity;
+}
+
+/**
+ * Wraps the given integer into a 32-bit integer, as `value | 0` does.
+ */
+function toInt32(value: number): number {
+    return Math.imul(value, 1);
+}
+
+function hashString(value: string): number {
+    let hash = 0;
+    for (let i = 0; i < value.length; i++)
+        hash = toInt32(Math.imul(31, hash) + value.charCodeAt(i));
+    return hash;
+}
+
+function isInt32(value: number): boolean {
+    return Number.isInteger(value) && value >= -0x80000000 && value <= 0x7fffffff;
+}
+
+/**
+ * Returns a 32-bit integer hash code of the given value which is consistent with `sameValueZero`.
+ * Objects, functions and symbols are hashed by their identities.
+ */
+export function hashOf(value: unknown): number {
+    switch (typeof value) {
+        case "string": return hashString(value);
+        case "number": return isInt32(value) ? value + 0 : hashString(String(value));
+        case "bigint": return hashString(String(value));
+        case "boolean": return value ? 1231 : 1237;
+        case "symbol": return identityOf(symbolIdentities, value);
+        case "object":
+        case "function": return value === null ? 0 : identityOf(identities, value as object);
+        default: return 0;
+    }
+}
+
+/**
+ * Returns a 32-bit integer hash code of the given value which is consistent with a structural equality,
+ * such as `toEqual` of Jest.
+ * Arrays, `Map`s, `Set`s and own enumerable properties of objects are hashed recursively,
+ * and the other values are hashed by `hashOf`.
+ */
+export function structuralHashOf(value: unknown): number {
+    return structuralHash(value, new Set());
+}
+
+function structuralHash(value: unknown, ancestors: Set<object>): number {
+    if (typeof value !== "object" || value === null)
+        return hashOf(value);
+    if (value instanceof Date)
+        return hashOf(value.getTime());
+    // a cyclic reference is hashed as a constant, which is consistent with any equality.
+    if (ancestors.has(value))
+        return 0;
+
+    ancestors.add(value);
+    const entries: Array<[unknown, unknown]> = value instanceof Map ? [...value]
+        : value instanceof Set ? [...value].map(element => [element, element])
+        : Array.isArray(value) ? value.map((element, index) => [index, element])
+        : Object.entries(value);
+    // entries are summed up, so that the hash code does not depend on their order.
+    const hash = entries.reduce<number>((sum, [key, entry]) =>
+        toInt32(sum + 31 * structuralHash(key, ancestors) + structuralHash(entry, ancestors)), entries.length);
+    ancestors.delete(value);
+    return hash;
+}
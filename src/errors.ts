@@ -0,0 +1,30 @@
+/**
+ * An error thrown when the payload of an empty `Optional` is retrieved, for example by `Optional#get`.
+ *
+ * It extends `TypeError`, which was thrown in such cases by earlier versions.
+ */
+export class NoSuchElementError extends TypeError {
+    /**
+     * The operation and the call site which produced the empty `Optional`,
+     * which is recorded only in debug mode (see `Optional.configureDebug`).
+     */
+    readonly origin: string | undefined;
+
+    constructor(message: string = "The optional is not present.", origin?: string) {
+        super(origin !== undefined ? `${message} (emptied by ${origin})` : message);
+        this.name = "NoSuchElementError";
+        this.origin = origin;
+    }
+}
+
+/**
+ * An error thrown when `null` or `undefined` is given as a payload, for example to `Optional.of`.
+ *
+ * It extends `TypeError`, which was thrown in such cases by earlier versions.
+ */
+export class NullPayloadError extends TypeError {
+    constructor(message: string = "The passed value was null or undefined.") {
+        super(message);
+        this.name = "NullPayloadError";
+    }
+}
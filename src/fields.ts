@@ -0,0 +1,73 @@
+import { Optional } from "./optional.js";
+import { registerModule } from "./stack.js";
+
+registerModule();
+
+/**
+ * Returns whether the given `value` is left as it is by `Optional.wrapFields` and `Optional.unwrapFields`,
+ * which corresponds to the `Opaque` type.
+ */
+function isOpaque(value: object): boolean {
+    return typeof value === "function" || Optional.isOptional(value)
+        || value instanceof Date || value instanceof RegExp || value instanceof Map || value instanceof Set
+        || value instanceof Promise || value instanceof ArrayBuffer || ArrayBuffer.isView(value);
+}
+
+/**
+ * Returns a copy of the given object which has the same prototype, so that class instances keep their methods.
+ */
+function copyOf(target: object): Record<PropertyKey, unknown> {
+    return Object.assign(Object.create(Object.getPrototypeOf(target)), target);
+}
+
+/**
+ * Converts nested objects and arrays in the given `value` as `Optional.wrapFields` does,
+ * leaving opaque values as they are.
+ */
+function wrapValue(value: unknown): unknown {
+    if (Array.isArray(value))
+        return value.map(wrapValue);
+    if (typeof value === "object" && value !== null && !isOpaque(value))
+        return wrapFields(value, Object.keys(value));
+    return value;
+}
+
+/**
+ * Returns a copy of the given `target` whose own fields named by the given `keys` are replaced with `Optional`s
+ * of their values, where nested objects and arrays are converted recursively.
+ * Fields which are already `Optional`s, and fields holding functions such as methods, are kept as they are.
+ */
+export function wrapFields(target: object, keys: ReadonlyArray<PropertyKey>): unknown {
+    if (Array.isArray(target))
+        return target.map(wrapValue);
+
+    const result = copyOf(target);
+    for (const key of keys) {
+        if (!Object.prototype.hasOwnProperty.call(target, key))
+            continue;
+
+        const value: unknown = (target as Record<PropertyKey, unknown>)[key as string];
+        result[key as string] = Optional.isOptional(value) || typeof value === "function"
+            ? value
+            : Optional.ofNullable(value).map(wrapValue);
+    }
+    return result;
+}
+
+/**
+ * Returns a copy of the given `target` whose `Optional`s are replaced with their payloads, or `empty` if empty,
+ * where nested objects and arrays (including payloads) are converted recursively.
+ */
+export function unwrapFields(target: unknown, empty: null | undefined): unknown {
+    if (Optional.isOptional(target))
+        return target.isPresent() ? unwrapFields(target.get(), empty) : empty;
+    if (Array.isArray(target))
+        return target.map(element => unwrapFields(element, empty));
+    if (typeof target === "object" && target !== null && !isOpaque(target)) {
+        const result = copyOf(target);
+        for (const key of Object.keys(target))
+            result[key] = unwrapFields(result[key], empty);
+        return result;
+    }
+    return target;
+}
@@ -0,0 +1,163 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import {
+    filter, flatMap, flow, fromNullable, getOrElse, getOrElseGet, isEmpty, isPresent, map, match, or,
+    pipe, tap, toNullable, toOption, toUndefined,
+} from "./fp";
+import { Optional } from "./optional";
+import { Option } from "./types";
+
+describe("fp", () => {
+    const payload: string = "foo";
+    const sutPresent: Optional<string> = Optional.ofNonNull(payload);
+    const sutEmpty: Optional<string> = Optional.empty();
+    const optionPresent: Option<string> = { kind: "present", value: payload };
+    const optionEmpty: Option<string> = { kind: "empty" };
+    const present = <T>(value: T): Option<T> => ({ kind: "present", value });
+
+    it("does not depend on the Optional class at runtime.", () => {
+        const source = readFileSync(join(__dirname, "fp.ts"), "utf8");
+        expect(source).not.toMatch(/^import (?!type )/m);
+    });
+
+    describe("fromNullable", () => {
+        it("returns a present Option when a non-null value is given.", () => {
+            expect(fromNullable(payload)).toEqual(optionPresent);
+        });
+
+        it("returns an empty Option when null is given.", () => {
+            expect(fromNullable<string>(null)).toEqual(optionEmpty);
+        });
+    });
+
+    describe("toOption", () => {
+        it("converts an Optional into a plain Option.", () => {
+            expect(toOption(sutPresent)).toStrictEqual(optionPresent);
+            expect(toOption(sutEmpty)).toStrictEqual(optionEmpty);
+            expect(toOption(Optional.lazy(() => payload))).toStrictEqual(optionPresent);
+        });
+
+        it("returns a copy of an Option.", () => {
+            expect(toOption(optionPresent)).not.toBe(optionPresent);
+            expect(toOption(optionPresent)).toStrictEqual(optionPresent);
+        });
+    });
+
+    describe("isPresent / isEmpty", () => {
+        it("works on both Optional and Option.", () => {
+            const options = [sutPresent, optionPresent, sutEmpty, optionEmpty];
+            expect(options.map(isPresent)).toEqual([true, true, false, false]);
+            expect(options.map(isEmpty)).toEqual([false, false, true, true]);
+        });
+    });
+
+    describe("map", () => {
+        it("maps a payload of an Optional.", () => {
+            expect(pipe(sutPresent, map(x => x.length))).toEqual(present(payload.length));
+            expect(pipe(sutEmpty, map(x => x.length))).toEqual(optionEmpty);
+        });
+
+        it("maps a payload of an Option.", () => {
+            expect(pipe(optionPresent, map(x => x.length))).toEqual({ kind: "present", value: 3 });
+            expect(pipe(optionEmpty, map(x => x.length))).toEqual({ kind: "empty" });
+        });
+
+        it("returns an empty Option when the mapper returns null.", () => {
+            expect(pipe(sutPresent, map(x => null))).toEqual(optionEmpty);
+        });
+
+        it("rejects a mapper which returns void at compile time.", () => {
+            // @ts-expect-error
+            expect(pipe(sutPresent, map((x: string) => { x.trim(); }))).toEqual(optionEmpty);
+        });
+    });
+
+    describe("flatMap", () => {
+        it("accepts a mapper which returns either an Optional or an Option.", () => {
+            expect(pipe(sutPresent, flatMap(x => Optional.ofNonNull(x.length)))).toStrictEqual(present(3));
+            expect(pipe(optionPresent, flatMap((x): Option<number> => ({ kind: "empty" })))).toEqual(optionEmpty);
+            expect(pipe(sutEmpty, flatMap(x => Optional.ofNonNull(x.length)))).toEqual(optionEmpty);
+        });
+    });
+
+    describe("filter", () => {
+        it("filters a payload.", () => {
+            expect(pipe(sutPresent, filter(x => x === payload))).toEqual(optionPresent);
+            expect(pipe(optionPresent, filter(x => x !== payload))).toEqual(optionEmpty);
+        });
+
+        it("narrows the payload type with a type guard.", () => {
+            const option: Option<string | number> = { kind: "present", value: 1 };
+            const actual: Option<number> = pipe(option, filter((x): x is number => typeof x === "number"));
+            expect(actual).toEqual(present(1));
+        });
+    });
+
+    describe("or", () => {
+        it("returns the given one when present, otherwise the supplied one.", () => {
+            const another: Option<string> = { kind: "present", value: "bar" };
+            expect(pipe(sutPresent, or(() => another))).toStrictEqual(optionPresent);
+            expect(pipe(optionEmpty, or(() => another))).toStrictEqual(another);
+        });
+    });
+
+    describe("tap", () => {
+        it("executes the consumer only when present.", () => {
+            const consumer = jest.fn();
+            expect(pipe(optionPresent, tap(consumer))).toEqual(optionPresent);
+            pipe(sutEmpty, tap(consumer));
+            expect(consumer).toHaveBeenCalledTimes(1);
+            expect(consumer).toHaveBeenCalledWith(payload);
+        });
+    });
+
+    describe("getOrElse / getOrElseGet", () => {
+        it("returns the payload or another value.", () => {
+            expect(pipe(sutPresent, getOrElse("bar"))).toBe(payload);
+            expect(pipe(optionEmpty, getOrElse("bar"))).toBe("bar");
+            expect(pipe(sutEmpty, getOrElseGet(() => "baz"))).toBe("baz");
+        });
+    });
+
+    describe("toNullable / toUndefined", () => {
+        it("returns the payload or a nullish value.", () => {
+            expect(toNullable(optionPresent)).toBe(payload);
+            expect(toNullable(sutEmpty)).toBeNull();
+            expect(toUndefined(optionEmpty)).toBeUndefined();
+        });
+    });
+
+    describe("match", () => {
+        const cases = match<string, number>({ present: x => x.length, empty: () => -1 });
+
+        it("emulates pattern matching.", () => {
+            expect(cases(sutPresent)).toBe(3);
+            expect(cases(optionEmpty)).toBe(-1);
+        });
+    });
+
+    describe("pipe", () => {
+        it("returns the given value as is when no functions are given.", () => {
+            expect(pipe(sutPresent)).toBe(sutPresent);
+        });
+
+        it("applies functions from left to right.", () => {
+            const result: number = pipe(
+                optionPresent,
+                map(x => x.toUpperCase()),
+                filter(x => x.startsWith("F")),
+                map(x => x.length),
+                getOrElse(0),
+            );
+            expect(result).toBe(3);
+        });
+    });
+
+    describe("flow", () => {
+        it("composes functions from left to right.", () => {
+            const length = flow((s: string | null) => fromNullable(s), map(x => x.length), getOrElse(0));
+            expect(length(payload)).toBe(3);
+            expect(length(null)).toBe(0);
+        });
+    });
+});
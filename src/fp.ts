@@ -0,0 +1,257 @@
+import type { Optional } from "./optional.js";
+import type { Cases, Option, UnknownResult } from "./types.js";
+
+/**
+ * Pipeable, standalone functions which operate on both `Optional` objects and plain `Option` objects.
+ *
+ * Each operation is exported as a separate function, so that bundlers can drop unused ones,
+ * and is curried, so that it can be composed with `pipe` and `flow`.
+ * This module never depends on the `Optional` class at runtime, so that importing it does not pull in
+ * the whole library; operations which transform their input always return a plain `Option`,
+ * which can be converted into an `Optional` by `Optional.from` if needed.
+ */
+
+/**
+ * Either an `Optional` or an `Option`.
+ */
+export type OptionLike<T> = Optional<T> | Option<T>;
+
+const none: Option<never> = Object.freeze({ kind: "empty" as const });
+
+function some<T>(value: T): Option<T> {
+    return { kind: "present", value };
+}
+
+/**
+ * Reads the given `Optional` (or `Option`) as an `Option`,
+ * which is possible since an `Optional` has `kind` and, if present, `value` as well.
+ */
+function read<T>(option: OptionLike<T>): Option<T> {
+    return option as Option<T>;
+}
+
+/**
+ * Returns an `Option` of the given `nullable` value.
+ *
+ * @param nullable a nullable value
+ * @see Optional.ofNullable
+ */
+export function fromNullable<T>(nullable: T | null | undefined): Option<T> {
+    return nullable === null || nullable === undefined ? none : some(nullable);
+}
+
+/**
+ * Returns the given `Optional` (or `Option`) as a plain `Option`.
+ *
+ * @param option an `Optional` or an `Option`
+ * @see Optional#toOption
+ */
+export function toOption<T>(option: OptionLike<T>): Option<T> {
+    const source = read(option);
+    return source.kind === "present" ? some(source.value) : none;
+}
+
+/**
+ * Returns whether the given `Optional` (or `Option`) is present or not.
+ *
+ * @param option an `Optional` or an `Option`
+ */
+export function isPresent<T>(option: OptionLike<T>): boolean {
+    return option.kind === "present";
+}
+
+/**
+ * Returns whether the given `Optional` (or `Option`) is empty or not.
+ *
+ * @param option an `Optional` or an `Option`
+ */
+export function isEmpty<T>(option: OptionLike<T>): boolean {
+    return option.kind === "empty";
+}
+
+/**
+ * Returns a function which maps a payload with the given `mapper`.
+ * If the `mapper` returns `null` or `undefined`, the result is empty.
+ *
+ * @param mapper a mapper to apply the payload, if present
+ * @see Optional#map
+ */
+export function map<T, U extends {} | null | undefined>(
+    mapper: (value: T) => U,
+): (option: OptionLike<T>) => Option<NonNullable<U>>;
+export function map<T, U>(mapper: (value: T) => UnknownResult<U>): (option: OptionLike<T>) => Option<unknown>;
+export function map<T, U>(mapper: (value: T) => U): (option: OptionLike<T>) => Option<NonNullable<U>> {
+    return option => {
+        const source = read(option);
+        return source.kind === "present" ? fromNullable(mapper(source.value) as NonNullable<U>) : none;
+    };
+}
+
+/**
+ * Returns a function which maps a payload with the given `mapper` which returns an `Optional` or an `Option`.
+ *
+ * @param mapper a mapper to apply the payload, if present
+ * @see Optional#flatMap
+ */
+export function flatMap<T, U>(mapper: (value: T) => OptionLike<U>): (option: OptionLike<T>) => Option<U> {
+    return option => {
+        const source = read(option);
+        return source.kind === "present" ? toOption(mapper(source.value)) : none;
+    };
+}
+
+/**
+ * Returns a function which filters a payload with the given `predicate`.
+ * If the `predicate` is a type guard, the payload type of the result is narrowed by it.
+ *
+ * @param predicate a predicate to test the payload, if present
+ * @see Optional#filter
+ */
+export function filter<T, S extends T>(predicate: (value: T) => value is S): (option: OptionLike<T>) => Option<S>;
+export function filter<T>(predicate: (value: T) => boolean): (option: OptionLike<T>) => Option<T>;
+export function filter<T>(predicate: (value: T) => boolean): (option: OptionLike<T>) => Option<T> {
+    return option => {
+        const source = read(option);
+        return source.kind === "present" && predicate(source.value) ? some(source.value) : none;
+    };
+}
+
+/**
+ * Returns a function which returns the given `Optional` (or `Option`) if present,
+ * otherwise returns the one provided by the given `supplier`.
+ *
+ * @param supplier a supplier
+ * @see Optional#or
+ */
+export function or<T>(supplier: () => OptionLike<T>): (option: OptionLike<T>) => Option<T> {
+    return option => toOption(option.kind === "present" ? option : supplier());
+}
+
+/**
+ * Returns a function which executes the given `consumer` if a payload is present,
+ * and then returns the given `Optional` (or `Option`) as an `Option`.
+ *
+ * @param consumer a consumer of the payload
+ * @see Optional#ifPresent
+ */
+export function tap<T>(consumer: (value: T) => void): (option: OptionLike<T>) => Option<T> {
+    return option => {
+        const source = toOption(option);
+        if (source.kind === "present")
+            consumer(source.value);
+        return source;
+    };
+}
+
+/**
+ * Returns a function which returns the payload if present, otherwise returns `another`.
+ *
+ * @param another an another value
+ * @see Optional#orElse
+ */
+export function getOrElse<T>(another: T): (option: OptionLike<T>) => T {
+    return option => {
+        const source = read(option);
+        return source.kind === "present" ? source.value : another;
+    };
+}
+
+/**
+ * Returns a function which returns the payload if present,
+ * otherwise returns the result provided by the given `supplier`.
+ *
+ * @param supplier a supplier of another value
+ * @see Optional#orElseGet
+ */
+export function getOrElseGet<T>(supplier: () => T): (option: OptionLike<T>) => T {
+    return option => {
+        const source = read(option);
+        return source.kind === "present" ? source.value : supplier();
+    };
+}
+
+/**
+ * Returns the payload if present, otherwise returns `null`.
+ *
+ * @param option an `Optional` or an `Option`
+ * @see Optional#orNull
+ */
+export function toNullable<T>(option: OptionLike<T>): T | null {
+    const source = read(option);
+    return source.kind === "present" ? source.value : null;
+}
+
+/**
+ * Returns the payload if present, otherwise returns `undefined`.
+ *
+ * @param option an `Optional` or an `Option`
+ * @see Optional#orUndefined
+ */
+export function toUndefined<T>(option: OptionLike<T>): T | undefined {
+    const source = read(option);
+    return source.kind === "present" ? source.value : undefined;
+}
+
+/**
+ * Returns a function which emulates pattern matching with the given `cases`.
+ *
+ * @param cases cases for an `Optional` or an `Option`
+ * @see Optional#matches
+ */
+export function match<T, U>(cases: Cases<T, U>): (option: OptionLike<T>) => U {
+    return option => {
+        const source = read(option);
+        return source.kind === "present" ? cases.present(source.value) : cases.empty();
+    };
+}
+
+/**
+ * Pipes the given `value` through the given functions from left to right.
+ *
+ * @param value an initial value
+ * @param functions functions to apply
+ */
+export function pipe<A>(value: A): A;
+export function pipe<A, B>(value: A, ab: (a: A) => B): B;
+export function pipe<A, B, C>(value: A, ab: (a: A) => B, bc: (b: B) => C): C;
+export function pipe<A, B, C, D>(value: A, ab: (a: A) => B, bc: (b: B) => C, cd: (c: C) => D): D;
+export function pipe<A, B, C, D, E>(
+    value: A, ab: (a: A) => B, bc: (b: B) => C, cd: (c: C) => D, de: (d: D) => E,
+): E;
+export function pipe<A, B, C, D, E, F>(
+    value: A, ab: (a: A) => B, bc: (b: B) => C, cd: (c: C) => D, de: (d: D) => E, ef: (e: E) => F,
+): F;
+export function pipe<A, B, C, D, E, F, G>(
+    value: A, ab: (a: A) => B, bc: (b: B) => C, cd: (c: C) => D, de: (d: D) => E, ef: (e: E) => F,
+    fg: (f: F) => G,
+): G;
+export function pipe<A, B, C, D, E, F, G, H>(
+    value: A, ab: (a: A) => B, bc: (b: B) => C, cd: (c: C) => D, de: (d: D) => E, ef: (e: E) => F,
+    fg: (f: F) => G, gh: (g: G) => H,
+): H;
+export function pipe(value: unknown, ...functions: Array<(value: any) => unknown>): unknown {
+    return functions.reduce((result, f) => f(result), value);
+}
+
+/**
+ * Composes the given functions from left to right.
+ *
+ * @param functions functions to compose
+ */
+export function flow<A extends any[], B>(ab: (...a: A) => B): (...a: A) => B;
+export function flow<A extends any[], B, C>(ab: (...a: A) => B, bc: (b: B) => C): (...a: A) => C;
+export function flow<A extends any[], B, C, D>(
+    ab: (...a: A) => B, bc: (b: B) => C, cd: (c: C) => D,
+): (...a: A) => D;
+export function flow<A extends any[], B, C, D, E>(
+    ab: (...a: A) => B, bc: (b: B) => C, cd: (c: C) => D, de: (d: D) => E,
+): (...a: A) => E;
+export function flow<A extends any[], B, C, D, E, F>(
+    ab: (...a: A) => B, bc: (b: B) => C, cd: (c: C) => D, de: (d: D) => E, ef: (e: E) => F,
+): (...a: A) => F;
+export function flow<A extends any[], B, C, D, E, F, G>(
+    ab: (...a: A) => B, bc: (b: B) => C, cd: (c: C) => D, de: (d: D) => E, ef: (e: E) => F, fg: (f: F) => G,
+): (...a: A) => G;
+export function flow(first: (...args: any[]) => unknown, ...functions: Array<(value: any) => unknown>) {
+    return (...args: any[]) => functions.reduce((result, f) => f(result), first(...args));
+}
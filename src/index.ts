@@ -1,2 +1,11 @@
-export { Optional } from "./optional.js";
-export { Cases, Empty, Option, Present } from "./types.js";
+export { AsyncOptional } from "./asyncOptional.js";
+export { NoSuchElementError, NullPayloadError } from "./errors.js";
+export { EmptyOptional, Optional, PresentOptional } from "./optional.js";
+export { OptionalMap } from "./optionalMap.js";
+export { NonExhaustive, OptionalMatcher } from "./optionalMatcher.js";
+export { Result } from "./result.js";
+export {
+    Cases, Comparator, ComparatorOptions, Either, Empty, Err, ErrorFilter, Falsy, JSONMode, JSONOptions, JSONPath,
+    MapLike, Nullablize, Ok, Option, Optionalize, OptionalSelector, Partition, Payloads, Present, Property,
+    ResultCases, UnknownResult,
+} from "./types.js";
@@ -0,0 +1,79 @@
+import "./jest";
+import { Optional } from "./optional";
+
+describe("jest", () => {
+    const payload: string = "foo";
+    const sutPresent: Optional<string> = Optional.ofNonNull(payload);
+    const sutEmpty: Optional<string> = Optional.empty();
+
+    describe("#toBePresent", () => {
+        it("passes when the Optional is present.", () => {
+            expect(sutPresent).toBePresent();
+            expect(sutEmpty).not.toBePresent();
+            expect(Optional.lazy(() => payload)).toBePresent();
+        });
+
+        it("fails with a readable message when the Optional is empty.", () => {
+            expect(() => expect(sutEmpty).toBePresent()).toThrow("Expected an Optional to be present");
+        });
+
+        it("fails when the value is not an Optional.", () => {
+            expect(() => expect(payload).toBePresent()).toThrow("Received value must be an Optional");
+            expect(() => expect(payload).not.toBePresent()).toThrow("Received value must be an Optional");
+        });
+    });
+
+    describe("#toBeEmpty", () => {
+        it("passes when the Optional is empty.", () => {
+            expect(sutEmpty).toBeEmpty();
+            expect(sutPresent).not.toBeEmpty();
+        });
+
+        it("fails with a readable message when the Optional is present.", () => {
+            expect(() => expect(sutPresent).toBeEmpty()).toThrow("Expected an Optional to be empty");
+        });
+    });
+
+    describe("#toBePresentWith", () => {
+        it("passes when the payload equals the expected value recursively.", () => {
+            expect(Optional.of({ a: [1] })).toBePresentWith({ a: [1] });
+            expect(sutPresent).toBePresentWith(expect.stringMatching(/^f/));
+            expect(sutPresent).not.toBePresentWith("bar");
+            expect(sutEmpty).not.toBePresentWith(payload);
+        });
+
+        it("fails with a readable message.", () => {
+            expect(() => expect(sutEmpty).toBePresentWith(payload)).toThrow(/a present Optional with "foo"/);
+        });
+    });
+
+    describe("#toBePresentMatching", () => {
+        it("passes when the payload matches the predicate.", () => {
+            expect(sutPresent).toBePresentMatching(x => x.length === 3);
+            expect(sutPresent).not.toBePresentMatching(x => x.length === 0);
+            expect(sutEmpty).not.toBePresentMatching(() => true);
+        });
+
+        it("passes when the payload matches the asymmetric matcher.", () => {
+            expect(sutPresent).toBePresentMatching(expect.any(String));
+            expect(Optional.of({ a: 1, b: 2 })).toBePresentMatching(expect.objectContaining({ a: 1 }));
+        });
+
+        it("fails with a readable message.", () => {
+            expect(() => expect(sutPresent).toBePresentMatching(x => false)).toThrow(/matches the predicate/);
+        });
+    });
+
+    describe("snapshot serializer", () => {
+        it("prints Optionals readably.", () => {
+            expect(sutPresent).toMatchInlineSnapshot(`Optional["foo"]`);
+            expect(sutEmpty).toMatchInlineSnapshot(`Optional.empty`);
+            expect([Optional.of(1), Optional.lazy(() => null)]).toMatchInlineSnapshot(`
+                Array [
+                  Optional[1],
+                  Optional.empty,
+                ]
+            `);
+        });
+    });
+});
@@ -0,0 +1,141 @@
+import { Optional } from "./optional.js";
+
+/**
+ * Custom matchers of Jest for `Optional`s, and a snapshot serializer which prints `Optional`s readably.
+ *
+ * Importing this module (for example from a file listed in `setupFilesAfterEnv`) registers them
+ * to the global `expect` if available.
+ * They are also exported, so that they can be registered manually.
+ */
+
+declare global {
+    namespace jest {
+        interface Matchers<R, T = {}> {
+            /**
+             * Checks that a value is a present `Optional`.
+             */
+            toBePresent(): R;
+
+            /**
+             * Checks that a value is an empty `Optional`.
+             */
+            toBeEmpty(): R;
+
+            /**
+             * Checks that a value is a present `Optional` whose payload recursively equals the given `expected`,
+             * as `toEqual` does.
+             *
+             * @param expected an expected payload, which may be an asymmetric matcher
+             */
+            toBePresentWith(expected: unknown): R;
+
+            /**
+             * Checks that a value is a present `Optional` whose payload matches the given `predicate`
+             * or asymmetric matcher.
+             *
+             * @param matcher a predicate of the payload, or an asymmetric matcher such as `expect.any(String)`
+             */
+            toBePresentMatching(matcher: ((value: any) => boolean) | AsymmetricMatcher): R;
+        }
+    }
+}
+
+/**
+ * An asymmetric matcher such as `expect.any(String)` or `expect.stringContaining("foo")`.
+ */
+interface AsymmetricMatcher {
+    asymmetricMatch(other: unknown): boolean;
+}
+
+function printOptional(context: jest.MatcherContext, received: unknown): string {
+    return context.utils.printReceived(received);
+}
+
+/**
+ * Calls the given `assertion` with the received value as an `Optional`,
+ * or returns a failure if the received value is not an `Optional`.
+ */
+function withOptional(
+    context: jest.MatcherContext,
+    matcherName: string,
+    received: unknown,
+    assertion: (optional: Optional<unknown>) => jest.CustomMatcherResult,
+): jest.CustomMatcherResult {
+    if (Optional.isOptional(received))
+        return assertion(Optional.adopt(received));
+
+    return {
+        pass: context.isNot,
+        message: () => `${context.utils.matcherHint(matcherName)}\n\n`
+            + `Received value must be an Optional, but was: ${printOptional(context, received)}`,
+    };
+}
+
+/**
+ * Custom matchers of Jest for `Optional`s, which can be registered by `expect.extend`.
+ */
+export const optionalMatchers: jest.ExpectExtendMap = {
+    toBePresent(received: unknown): jest.CustomMatcherResult {
+        return withOptional(this, "toBePresent", received, optional => ({
+            pass: optional.isPresent(),
+            message: () => `${this.utils.matcherHint("toBePresent", undefined, "")}\n\n`
+                + `Expected an Optional ${this.isNot ? "not " : ""}to be present, `
+                + `but was: ${printOptional(this, received)}`,
+        }));
+    },
+
+    toBeEmpty(received: unknown): jest.CustomMatcherResult {
+        return withOptional(this, "toBeEmpty", received, optional => ({
+            pass: optional.isEmpty(),
+            message: () => `${this.utils.matcherHint("toBeEmpty", undefined, "")}\n\n`
+                + `Expected an Optional ${this.isNot ? "not " : ""}to be empty, `
+                + `but was: ${printOptional(this, received)}`,
+        }));
+    },
+
+    toBePresentWith(received: unknown, expected: unknown): jest.CustomMatcherResult {
+        return withOptional(this, "toBePresentWith", received, optional => ({
+            pass: optional.isPresent() && this.equals(optional.get(), expected),
+            message: () => `${this.utils.matcherHint("toBePresentWith")}\n\n`
+                + `Expected: ${this.isNot ? "not " : ""}a present Optional with ${this.utils.printExpected(expected)}\n`
+                + `Received: ${printOptional(this, received)}`,
+        }));
+    },
+
+    toBePresentMatching(
+        received: unknown,
+        matcher: ((value: any) => boolean) | AsymmetricMatcher,
+    ): jest.CustomMatcherResult {
+        const matches = (value: unknown) => typeof matcher === "function"
+            ? Boolean(matcher(value))
+            : this.equals(value, matcher);
+        return withOptional(this, "toBePresentMatching", received, optional => ({
+            pass: optional.isPresent() && matches(optional.get()),
+            message: () => `${this.utils.matcherHint("toBePresentMatching")}\n\n`
+                + `Expected: ${this.isNot ? "not " : ""}a present Optional whose payload matches `
+                + `${typeof matcher === "function" ? "the predicate" : this.utils.printExpected(matcher)}\n`
+                + `Received: ${printOptional(this, received)}`,
+        }));
+    },
+};
+
+/**
+ * A snapshot serializer which prints `Optional`s as `Optional[payload]` or `Optional.empty`,
+ * which can be registered by `expect.addSnapshotSerializer` or `snapshotSerializers`.
+ */
+export const optionalSerializer: jest.SnapshotSerializerPlugin = {
+    test(value: unknown): boolean {
+        return Optional.isOptional(value);
+    },
+
+    serialize(value: Optional<unknown>, config, indentation, depth, refs, printer): string {
+        return value.isPresent()
+            ? `Optional[${printer(value.get(), config, indentation, depth, refs)}]`
+            : "Optional.empty";
+    },
+};
+
+if (typeof expect !== "undefined") {
+    expect.extend(optionalMatchers);
+    expect.addSnapshotSerializer(optionalSerializer);
+}
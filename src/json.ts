@@ -0,0 +1,90 @@
+import { Optional } from "./optional.js";
+import { registerModule } from "./stack.js";
+import { JSONMode, JSONPath, Option, OptionalSelector } from "./types.js";
+
+registerModule();
+
+type PathMatcher = (path: JSONPath, value: unknown) => boolean;
+
+/**
+ * Compiles dot-separated path patterns (e.g. `"users.*.nickname"`) into a matcher.
+ * A segment `*` matches any property name or array index.
+ */
+function compilePaths(paths: ReadonlyArray<string>): PathMatcher {
+    const patterns = paths.map(path => path.split("."));
+    return path => patterns.some(pattern =>
+        pattern.length === path.length
+            && pattern.every((segment, i) => segment === "*" || segment === String(path[i])));
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    if (typeof value !== "object" || value === null)
+        return false;
+
+    const prototype = Object.getPrototypeOf(value);
+    return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Returns whether the given `value` has the shape of an `Option`, whose payload is neither `null` nor `undefined`.
+ */
+function isOption(value: unknown): value is Option<unknown> {
+    if (typeof value !== "object" || value === null)
+        return false;
+
+    const { kind, value: payload } = value as { kind?: unknown, value?: unknown };
+    return kind === "empty" || (kind === "present" && payload !== null && payload !== undefined);
+}
+
+/**
+ * Converts a value at a selected location into an `Optional`.
+ *
+ * @throws {TypeError} when the value is not an `Option` in `"tagged"` mode.
+ */
+export function reviveOptional(value: unknown, mode: JSONMode, path: JSONPath): Optional<unknown> {
+    if (Optional.isOptional(value))
+        return Optional.adopt(value);
+
+    switch (mode) {
+        case "tagged":
+            if (!isOption(value))
+                throw new TypeError(
+                    `The value at [${path.join(", ")}] was not a tagged Optional: ${JSON.stringify(value)}`);
+            return Optional.from(value);
+        case "bare":
+            return Optional.ofNullable(value);
+    }
+}
+
+/**
+ * Returns a copy of the given parsed JSON value,
+ * whose values at the locations selected by the given `selector` are replaced with `Optional`s.
+ * The given value itself is left untouched.
+ * Descendants of a revived `Optional` are located by paths relative to its payload,
+ * regardless of whether it was serialized in `"bare"` or `"tagged"` mode.
+ */
+export function reviveOptionals(root: unknown, selector: OptionalSelector, mode: JSONMode): unknown {
+    const matches: PathMatcher = typeof selector === "function" ? selector : compilePaths(selector);
+
+    const walk = (value: unknown, path: JSONPath): unknown => {
+        if (matches(path, value))
+            return reviveOptional(value, mode, path).map(payload => walkChildren(payload, path));
+        else
+            return walkChildren(value, path);
+    };
+
+    const walkChildren = (value: unknown, path: JSONPath): unknown => {
+        if (Array.isArray(value))
+            return value.map((element, index) => walk(element, [...path, index]));
+
+        if (isPlainObject(value)) {
+            const result: Record<string, unknown> = {};
+            for (const key of Object.keys(value))
+                result[key] = walk(value[key], [...path, key]);
+            return result;
+        }
+        return value;
+    };
+
+    return walk(root, []);
+}
@@ -0,0 +1,149 @@
+import {
+    ArbitraryLike, assertLaws, checkLaws, constantFrom, createRandom, FastCheckLike, functions, integers, nullables,
+    optionalArbitrary, optionals, predicates, Random, strings,
+} from "./laws";
+import { Optional, PresentOptional } from "./optional";
+
+/**
+ * A minimal fast-check-like module which generates values by the built-in seeded generators.
+ */
+class Arbitrary<T> implements ArbitraryLike<T> {
+    constructor(readonly generate: (random: Random) => T) {}
+
+    map<U>(mapper: (value: T) => U): Arbitrary<U> {
+        return new Arbitrary(random => mapper(this.generate(random)));
+    }
+}
+
+const fc: FastCheckLike = {
+    constant: value => new Arbitrary(() => value),
+    oneof: <T>(...arbitraries: Array<ArbitraryLike<T>>) => new Arbitrary(random => {
+        const arbitrary = arbitraries[random.integer(0, arbitraries.length - 1)] as Arbitrary<T>;
+        return arbitrary.generate(random);
+    }),
+};
+
+/**
+ * A broken implementation whose `map` keeps the payload when the mapper returns `null`.
+ */
+class BrokenOptional<T> extends PresentOptional<T> {
+    map<U>(mapper: (value: T) => U): Optional<NonNullable<U>> {
+        const result = mapper(this.get());
+        return result === null || result === undefined
+            ? this as unknown as Optional<NonNullable<U>>
+            : new BrokenOptional(result as NonNullable<U>);
+    }
+}
+
+describe("laws", () => {
+    describe("createRandom", () => {
+        it("returns the same sequence for the same seed.", () => {
+            const sequence = (seed: number) => {
+                const random = createRandom(seed);
+                return Array.from({ length: 5 }, () => random.next());
+            };
+            expect(sequence(1)).toStrictEqual(sequence(1));
+            expect(sequence(1)).not.toStrictEqual(sequence(2));
+        });
+
+        it("returns numbers in range.", () => {
+            const random = createRandom(0);
+            for (let i = 0; i < 100; i++) {
+                expect(random.next()).toBeGreaterThanOrEqual(0);
+                expect(random.next()).toBeLessThan(1);
+                expect(random.integer(-2, 2)).toBeGreaterThanOrEqual(-2);
+                expect(random.integer(-2, 2)).toBeLessThanOrEqual(2);
+            }
+        });
+    });
+
+    describe("generators", () => {
+        const random = createRandom(42);
+
+        it("generate values of the given domain.", () => {
+            expect(integers(0, 3)(random)).toBeLessThanOrEqual(3);
+            expect(strings(4)(random)).toMatch(/^[a-z]{0,4}$/);
+            expect(["a", "b"]).toContain(constantFrom("a", "b")(random));
+            expect(nullables(integers(), 1)(random)).toBeNull();
+            expect(optionals(integers(), 1)(random).isEmpty()).toBe(true);
+        });
+
+        it("generate pure functions.", () => {
+            const f = functions<string, number>(integers())(random);
+            const p = predicates<string>()(random);
+            expect(f("foo")).toBe(f("foo"));
+            expect(p("foo")).toBe(p("foo"));
+        });
+
+        it("generate functions which return the same result for structurally equal arguments.", () => {
+            const f = functions<object, number>(integers())(random);
+            expect(f({ a: [1, { b: "c" }], d: new Set([1, 2]) })).toBe(f({ d: new Set([2, 1]), a: [1, { b: "c" }] }));
+            const cyclic: { self?: object } = {};
+            cyclic.self = cyclic;
+            expect(f(cyclic)).toBe(f(cyclic));
+        });
+    });
+
+    describe("checkLaws", () => {
+        it("reports the seed and a counterexample of a violated law.", () => {
+            const results = checkLaws<number>({
+                values: integers(),
+                of: value => new BrokenOptional(value),
+                runs: 20,
+            });
+            const violated = results.filter(result => !result.passed).map(result => result.law);
+            expect(violated).toContain("map: ofNullable semantics");
+            expect(results.find(result => !result.passed)).toMatchObject({
+                seed: expect.any(Number),
+                counterexample: expect.arrayContaining([expect.stringMatching(/^a = /)]),
+            });
+        });
+    });
+
+    describe("checkLaws with object payloads", () => {
+        const deepEquals = (left: Optional<{ n: number }>, right: Optional<{ n: number }>) =>
+            left.equals(right, (x, y) => x.n === y.n);
+
+        it("passes for a lawful implementation when payloads are compared structurally.", () => {
+            const results = checkLaws({ values: random => ({ n: random.integer(0, 10) }), equals: deepEquals });
+            expect(results.filter(result => !result.passed)).toEqual([]);
+        });
+
+        it("uses the given generators of functions and predicates.", () => {
+            const config = {
+                values: (random: Random) => ({ n: random.integer(0, 10) }),
+                functions: (random: Random) => {
+                    const delta = random.integer(-3, 3);
+                    return (value: { n: number }) => ({ n: value.n + delta });
+                },
+                predicates: (random: Random) => {
+                    const threshold = random.integer(0, 10);
+                    return (value: { n: number }) => value.n < threshold;
+                },
+                equals: deepEquals,
+            };
+            const functionsOf = jest.spyOn(config, "functions");
+            const predicatesOf = jest.spyOn(config, "predicates");
+            expect(checkLaws(config).every(result => result.passed)).toBe(true);
+            expect(functionsOf).toHaveBeenCalled();
+            expect(predicatesOf).toHaveBeenCalled();
+        });
+    });
+
+    describe("assertLaws", () => {
+        it("throws an error describing violated laws.", () => {
+            const config = { values: integers(), of: (value: number) => new BrokenOptional(value), runs: 20 };
+            expect(() => assertLaws(config)).toThrow(/map: ofNullable semantics \(seed: \d+/);
+        });
+    });
+
+    describe("optionalArbitrary", () => {
+        it("generates empty, present and lazy Optionals.", () => {
+            const arbitrary = optionalArbitrary(fc, new Arbitrary(integers())) as Arbitrary<Optional<number>>;
+            const random = createRandom(7);
+            const samples = Array.from({ length: 100 }, () => arbitrary.generate(random));
+            expect(samples.some(sample => sample.isEmpty())).toBe(true);
+            expect(samples.some(sample => sample.isPresent())).toBe(true);
+        });
+    });
+});
@@ -0,0 +1,357 @@
+import { structuralHashOf } from "./equality.js";
+import { Optional } from "./optional.js";
+import { registerModule } from "./stack.js";
+
+registerModule();
+
+/**
+ * Property-based checks of the laws which every `Optional` implementation must obey,
+ * namely the functor laws of `map`, the monad laws of `flatMap`, the monoid laws of `or`,
+ * the laws of `filter` and the `Optional.ofNullable` semantics of `map`.
+ *
+ * Inputs are produced by small seeded generators, so that a failure can be reproduced with the same seed.
+ * Arbitraries compatible with fast-check are provided as well.
+ */
+
+/**
+ * A source of pseudo-random numbers.
+ */
+export interface Random {
+    /**
+     * Returns a number in `[0, 1)`.
+     */
+    next(): number;
+
+    /**
+     * Returns an integer in `[min, max]`.
+     */
+    integer(min: number, max: number): number;
+}
+
+/**
+ * A generator of values, which must return the same value for the same sequence of random numbers.
+ */
+export type Gen<T> = (random: Random) => T;
+
+/**
+ * Returns the given integer modulo 2^32, which is an unsigned 32-bit integer.
+ */
+function unsigned(value: number): number {
+    return (value % 0x100000000 + 0x100000000) % 0x100000000;
+}
+
+/**
+ * Returns the high bits of the given unsigned 32-bit integer shifted right by `bits`, as `value >>> bits` does.
+ */
+function high(value: number, bits: number): number {
+    return Math.floor(value / 2 ** bits);
+}
+
+/**
+ * Scrambles the given 32-bit integer into a pseudo-random unsigned 32-bit integer.
+ * Like usual hash finalizers, it multiplies the value by odd constants, but it mixes high bits into low bits
+ * by additions and products instead of `^`.
+ */
+function scramble(value: number): number {
+    let h = unsigned(value);
+    for (let round = 0; round < 2; round++) {
+        h = unsigned(Math.imul(h + high(h, 16), 0x85EBCA6B));
+        h = unsigned(h + Math.imul(high(h, 13), high(h, 7) + 1));
+        h = unsigned(Math.imul(h + high(h, 16), 0xC2B2AE35));
+    }
+    return unsigned(h + high(h, 16));
+}
+
+/**
+ * Returns a seeded source of pseudo-random numbers, which scrambles a Weyl sequence of 32-bit integers.
+ *
+ * @param seed a seed
+ */
+export function createRandom(seed: number): Random {
+    // `Math.imul(x, 1)` wraps the state into a 32-bit integer.
+    let state = Math.imul(seed, 1);
+    const next = () => {
+        state = Math.imul(state + 0x6D2B79F5, 1);
+        return scramble(state) / 0x100000000;
+    };
+    return {
+        next,
+        integer: (min, max) => min + Math.floor(next() * (max - min + 1)),
+    };
+}
+
+/**
+ * Returns a generator of integers in `[min, max]`.
+ *
+ * @param min the minimum
+ * @param max the maximum
+ */
+export function integers(min: number = -1000, max: number = 1000): Gen<number> {
+    return random => random.integer(min, max);
+}
+
+/**
+ * Returns a generator of strings of lowercase letters whose lengths are at most `maxLength`.
+ *
+ * @param maxLength the maximum length
+ */
+export function strings(maxLength: number = 8): Gen<string> {
+    return random => Array.from(
+        { length: random.integer(0, maxLength) },
+        () => String.fromCharCode(random.integer(0x61, 0x7a)),
+    ).join("");
+}
+
+/**
+ * Returns a generator of one of the given `values`.
+ *
+ * @param values candidates
+ */
+export function constantFrom<T>(...values: T[]): Gen<T> {
+    return random => values[random.integer(0, values.length - 1)];
+}
+
+/**
+ * Returns a generator of values of the given `gen`, or `null` with the given `probability`.
+ *
+ * @param gen a generator of values
+ * @param probability the probability of `null`
+ */
+export function nullables<T>(gen: Gen<T>, probability: number = 0.25): Gen<T | null> {
+    return random => random.next() < probability ? null : gen(random);
+}
+
+/**
+ * Returns a generator of `Optional`s, which are empty with the given `probability`,
+ * otherwise present with values of the given `gen`.
+ *
+ * @param gen a generator of payloads
+ * @param probability the probability of an empty `Optional`
+ */
+export function optionals<T>(gen: Gen<T>, probability: number = 0.25): Gen<Optional<T>> {
+    return random => random.next() < probability ? Optional.empty() : Optional.of(gen(random));
+}
+
+/**
+ * Returns a generator of pure functions whose results are values of the given `gen`.
+ * A generated function returns the same result for structurally equal arguments (as `toEqual` of Jest compares).
+ *
+ * @param gen a generator of results
+ */
+export function functions<A, B>(gen: Gen<B>): Gen<(argument: A) => B> {
+    return random => {
+        const salt = random.integer(0, 0x7fffffff);
+        return argument => gen(createRandom(salt + structuralHashOf(argument)));
+    };
+}
+
+/**
+ * Returns a generator of pure predicates, which return `true` with the given `probability`.
+ *
+ * @param probability the probability of `true`
+ */
+export function predicates<T>(probability: number = 0.5): Gen<(value: T) => boolean> {
+    return functions(random => random.next() < probability);
+}
+
+/**
+ * A configuration of `checkLaws` and `assertLaws`.
+ */
+export interface LawsConfig<T> {
+    /**
+     * A generator of payloads.
+     */
+    values: Gen<T>;
+
+    /**
+     * A generator of pure functions from payloads to payloads, which are used by the laws of `map` and `flatMap`.
+     * Defaults to `functions(values)`.
+     */
+    functions?: Gen<(value: T) => T>;
+
+    /**
+     * A generator of pure predicates of payloads, which are used by the laws of `filter`.
+     * Defaults to `predicates()`.
+     */
+    predicates?: Gen<(value: T) => boolean>;
+
+    /**
+     * A constructor of a present `Optional` of the implementation to check. Defaults to `Optional.of`.
+     */
+    of?: (value: T) => Optional<T>;
+
+    /**
+     * A constructor of an empty `Optional` of the implementation to check. Defaults to `Optional.empty`.
+     */
+    empty?: () => Optional<T>;
+
+    /**
+     * An equivalence of `Optional`s. Defaults to `Optional#equals`.
+     */
+    equals?: (left: Optional<T>, right: Optional<T>) => boolean;
+
+    /**
+     * The number of runs of each law. Defaults to 100.
+     */
+    runs?: number;
+
+    /**
+     * A seed of random numbers. Defaults to 42.
+     */
+    seed?: number;
+}
+
+/**
+ * A result of checking a law.
+ */
+export interface LawResult {
+    law: string;
+    passed: boolean;
+
+    /**
+     * The seed which reproduces the failure, if failed.
+     */
+    seed?: number;
+
+    /**
+     * Descriptions of the generated `Optional`s and value of the failed run, if failed.
+     */
+    counterexample?: string[];
+}
+
+interface LawInput<T> {
+    of: (value: T) => Optional<T>;
+    empty: () => Optional<T>;
+    a: T;
+    m: Optional<T>;
+    n: Optional<T>;
+    o: Optional<T>;
+    f: (value: T) => T;
+    g: (value: T) => T;
+    nullable: (value: T) => T | null;
+    k: (value: T) => Optional<T>;
+    h: (value: T) => Optional<T>;
+    p: (value: T) => boolean;
+    q: (value: T) => boolean;
+}
+
+type Law = <T>(input: LawInput<T>) => [Optional<T>, Optional<T>];
+
+const laws: Array<[string, Law]> = [
+    ["map: identity", ({ m }) => [m.map(x => x), m]],
+    ["map: composition", ({ m, f, g }) => [m.map(f).map(g), m.map(x => g(f(x)))]],
+    ["map: ofNullable semantics", ({ m, nullable }) => [
+        m.map(nullable),
+        m.flatMap(x => Optional.ofNullable(nullable(x))),
+    ]],
+    ["flatMap: left identity", ({ of, a, k }) => [of(a).flatMap(k), k(a)]],
+    ["flatMap: right identity", ({ of, m }) => [m.flatMap(of), m]],
+    ["flatMap: associativity", ({ m, k, h }) => [m.flatMap(k).flatMap(h), m.flatMap(x => k(x).flatMap(h))]],
+    ["flatMap: consistency with map", ({ of, m, f }) => [m.map(f), m.flatMap(x => of(f(x)))]],
+    ["or: left identity", ({ empty, m }) => [empty().or(() => m), m]],
+    ["or: right identity", ({ empty, m }) => [m.or(empty), m]],
+    ["or: associativity", ({ m, n, o }) => [m.or(() => n).or(() => o), m.or(() => n.or(() => o))]],
+    ["filter: identity", ({ m }) => [m.filter(() => true), m]],
+    ["filter: annihilation", ({ empty, m }) => [m.filter(() => false), empty()]],
+    ["filter: composition", ({ m, p, q }) => [m.filter(p).filter(q), m.filter(x => p(x) && q(x))]],
+    ["filter: consistency with flatMap", ({ of, empty, m, p }) => [
+        m.filter(p),
+        m.flatMap(x => p(x) ? of(x) : empty()),
+    ]],
+];
+
+/**
+ * Checks the laws of the `Optional` implementation given by `config`, and returns the results.
+ *
+ * @param config a configuration
+ */
+export function checkLaws<T>(config: LawsConfig<T>): LawResult[] {
+    const { values, runs = 100, seed = 42 } = config;
+    const of = config.of ?? (value => Optional.of(value));
+    const empty = config.empty ?? (() => Optional.empty());
+    const equals = config.equals ?? ((left, right) => left.equals(right));
+
+    const optionalOf: Gen<Optional<T>> = random => random.next() < 0.25 ? empty() : of(values(random));
+    const functionOf = config.functions ?? functions<T, T>(values);
+    const predicateOf = config.predicates ?? predicates<T>();
+    // derives the other functions from `functionOf`, so that they are also given by the configuration.
+    const isNullOf = predicates<T>(0.25);
+    const nullableFunctionOf: Gen<(value: T) => T | null> = random => {
+        const f = functionOf(random);
+        const isNull = isNullOf(random);
+        return x => isNull(x) ? null : f(x);
+    };
+    const kleisliOf: Gen<(value: T) => Optional<T>> = random => {
+        const f = functionOf(random);
+        const isEmpty = isNullOf(random);
+        return x => isEmpty(x) ? empty() : of(f(x));
+    };
+
+    return laws.map(([name, law]) => {
+        for (let run = 0; run < runs; run++) {
+            const runSeed = seed + run;
+            const random = createRandom(runSeed);
+            const input: LawInput<T> = {
+                of, empty,
+                a: values(random),
+                m: optionalOf(random), n: optionalOf(random), o: optionalOf(random),
+                f: functionOf(random), g: functionOf(random), nullable: nullableFunctionOf(random),
+                k: kleisliOf(random), h: kleisliOf(random),
+                p: predicateOf(random), q: predicateOf(random),
+            };
+            const [left, right] = law(input);
+            if (!equals(left, right)) {
+                const counterexample = [`a = ${String(input.a)}`, `m = ${input.m}`, `n = ${input.n}`, `o = ${input.o}`];
+                return { law: name, passed: false, seed: runSeed, counterexample };
+            }
+        }
+        return { law: name, passed: true };
+    });
+}
+
+/**
+ * Checks the laws of the `Optional` implementation given by `config`,
+ * and throws an error describing the violated laws if any.
+ *
+ * @param config a configuration
+ * @throws {Error} when any law is violated.
+ */
+export function assertLaws<T>(config: LawsConfig<T>): void {
+    const failures = checkLaws(config).filter(result => !result.passed);
+    if (failures.length > 0) {
+        const descriptions = failures.map(failure =>
+            `${failure.law} (seed: ${failure.seed}, ${failure.counterexample!.join(", ")})`);
+        throw new Error(`Laws of Optional were violated:\n  ${descriptions.join("\n  ")}`);
+    }
+}
+
+/**
+ * A structural type of `Arbitrary` of fast-check.
+ */
+export interface ArbitraryLike<T> {
+    map<U>(mapper: (value: T) => U): ArbitraryLike<U>;
+}
+
+/**
+ * A structural type of the fast-check module, which is passed to `optionalArbitrary`.
+ */
+export interface FastCheckLike {
+    constant<T>(value: T): ArbitraryLike<T>;
+    oneof<T>(...arbitraries: Array<ArbitraryLike<T>>): ArbitraryLike<T>;
+}
+
+/**
+ * Returns an arbitrary of fast-check which generates empty, present and lazy `Optional`s
+ * whose payloads are generated by the given `payload` arbitrary.
+ * Since this module does not depend on fast-check, the fast-check module must be given as `fc`.
+ *
+ * @param fc the fast-check module
+ * @param payload an arbitrary of payloads, which should not generate `null` or `undefined`
+ */
+export function optionalArbitrary<T>(fc: FastCheckLike, payload: ArbitraryLike<T>): ArbitraryLike<Optional<T>> {
+    return fc.oneof<Optional<T>>(
+        fc.constant(Optional.empty<T>()),
+        payload.map(value => Optional.of(value)),
+        payload.map(value => Optional.lazy(() => value)),
+    );
+}
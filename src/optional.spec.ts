@@ -1,4 +1,9 @@
-import { Optional } from "./optional";
+import { inspect } from "util";
+import { AsyncOptional } from "./asyncOptional";
+import { NoSuchElementError, NullPayloadError } from "./errors";
+import { assertLaws, integers, strings } from "./laws";
+import { EmptyOptional, Optional, PresentOptional } from "./optional";
+import { OptionalMap } from "./optionalMap";
 import { Cases, Option } from "./types";
 
 describe("Optional", () => {
@@ -21,6 +26,13 @@ describe("Optional", () => {
         });
     });
 
+    describe("NullPayloadError", () => {
+        it("is thrown by #of when null or undefined is given.", () => {
+            expect(() => Optional.of(null)).toThrow(NullPayloadError);
+            expect(() => Optional.ofNonNull(undefined)).toThrow(TypeError);
+        });
+    });
+
     describe("#ofNonNull", () => {
         it("should return a present Optional when it is given a non-null value.", () => {
             const sut = Optional.ofNonNull("foo");
@@ -110,6 +122,26 @@ describe("Optional", () => {
         it("should throw an exception if it is empty.", () => {
             expect(() => sutEmpty.get()).toThrow();
         });
+
+        it("should throw NoSuchElementError, which is a TypeError, if it is empty.", () => {
+            expect(() => sutEmpty.get()).toThrow(NoSuchElementError);
+            expect(() => sutEmpty.get()).toThrow(TypeError);
+            expect(() => sutEmpty.get()).toThrow("The optional is not present.");
+        });
+
+        it("should throw an error with the given message if it is empty.", () => {
+            expect(() => sutEmpty.get("no user")).toThrow(new NoSuchElementError("no user"));
+        });
+    });
+
+    describe("#expect", () => {
+        it("should return the payload if it is present.", () => {
+            expect(sutPresent.expect("no payload")).toBe(payload);
+        });
+
+        it("should throw NoSuchElementError with the given message if it is empty.", () => {
+            expect(() => sutEmpty.expect("no payload")).toThrow(new NoSuchElementError("no payload"));
+        });
     });
 
     describe("#ifPresent", () => {
@@ -216,6 +248,68 @@ describe("Optional", () => {
         });
     });
 
+    describe("#mapNullable", () => {
+        it("should behave as same as #map.", () => {
+            expect(sutPresent.mapNullable(value => value.length).get()).toBe(payload.length);
+            expect(sutPresent.mapNullable(value => undefined as string | undefined).isEmpty()).toBe(true);
+            expect(sutEmpty.mapNullable(value => value.length).isEmpty()).toBe(true);
+        });
+    });
+
+    describe("#mapStrict", () => {
+        it("should return a present Optional whose payload is mapped by the given function if it is present.", () => {
+            const actual = sutPresent.mapStrict(value => value.length).get();
+            expect(actual).toBe(payload.length);
+        });
+
+        it("should return an empty Optional without calling the mapper if it is empty.", () => {
+            const mapper = jest.fn((value: string) => value.length);
+            expect(sutEmpty.mapStrict(mapper).isEmpty()).toBe(true);
+            expect(mapper).not.toHaveBeenCalled();
+        });
+
+        it("should throw NullPayloadError if the mapper returns null or undefined.", () => {
+            const lookup = (value: string): number | undefined => undefined;
+            expect(() => sutPresent.mapStrict(lookup))
+                .toThrow(new NullPayloadError("The mapper (lookup) passed to mapStrict returned undefined."));
+            expect(() => sutPresent.mapStrict(value => null as string | null)).toThrow(NullPayloadError);
+        });
+
+        it("should throw when a lazy Optional is resolved.", () => {
+            const actual = Optional.lazy(() => payload).mapStrict(value => null as string | null);
+            expect(() => actual.isPresent()).toThrow(NullPayloadError);
+        });
+
+        it("should be aliased as #mapNonNull.", () => {
+            expect(sutPresent.mapNonNull(value => value.length).get()).toBe(payload.length);
+            expect(() => sutPresent.mapNonNull(value => undefined as string | undefined)).toThrow(NullPayloadError);
+        });
+    });
+
+    describe("void mappers", () => {
+        it("should be rejected at compile time.", () => {
+            const log: string[] = [];
+            // @ts-expect-error
+            sutPresent.map(value => { log.push(value); });
+            // @ts-expect-error
+            sutEmpty.mapStrict(value => { log.push(value); });
+            expect(log).toEqual([payload]);
+        });
+
+        it("should not reject mappers returning any, unknown or possibly undefined values.", () => {
+            expect(sutPresent.map(value => value as any).get()).toBe(payload);
+            const unknownPayload: Optional<unknown> = sutPresent.map(value => value as unknown);
+            expect(unknownPayload.get()).toBe(payload);
+            expect(sutPresent.map(value => undefined as string | undefined).isEmpty()).toBe(true);
+        });
+
+        it("should not reject mappers whose result type is generic.", () => {
+            const lift = <T, U>(optional: Optional<T>, mapper: (value: T) => U) => optional.map(mapper);
+            expect(lift(sutPresent, value => value.length).get()).toBe(payload.length);
+            expect(lift(sutPresent, value => value as unknown).get()).toBe(payload);
+        });
+    });
+
     describe("#flatMap", () => {
         {
             const sqrtIfNonNegative: (x: number) => Optional<number> = x => {
@@ -395,4 +489,1297 @@ describe("Optional", () => {
             expect(actual).toStrictEqual(expected);
         });
     });
+
+    describe("#fromPromise", () => {
+        it("returns an AsyncOptional of a present Optional when the promise resolves to a value.", async () => {
+            const actual = await Optional.fromPromise(Promise.resolve(payload));
+            expect(actual.get()).toBe(payload);
+        });
+
+        it("returns an AsyncOptional of an empty Optional when the promise resolves to null.", async () => {
+            const actual = await Optional.fromPromise(Promise.resolve<string | null>(null));
+            expect(actual.isEmpty()).toBe(true);
+        });
+    });
+
+    describe("#mapAsync", () => {
+        it("returns an AsyncOptional of the awaited mapper result if it is present.", async () => {
+            const actual = await sutPresent.mapAsync(x => Promise.resolve(x.length));
+            expect(actual.get()).toBe(payload.length);
+        });
+
+        it("returns an AsyncOptional of an empty Optional if it is empty.", async () => {
+            const actual = await sutEmpty.mapAsync(x => Promise.resolve(x.length));
+            expect(actual.isEmpty()).toBe(true);
+        });
+
+        it("rejects when the mapper throws.", async () => {
+            const actual = sutPresent.mapAsync(x => { throw new Error("failed"); });
+            await expect(actual.isPresent()).rejects.toThrow("failed");
+        });
+
+        it("passes a payload which is a promise to the callbacks as is.", async () => {
+            const promise = Promise.resolve(0);
+            const sut = Optional.ofNonNull(promise);
+            expect((await sut.mapAsync(value => value === promise)).get()).toBe(true);
+            expect((await sut.flatMapAsync(value => Optional.ofNonNull(value === promise))).get()).toBe(true);
+            expect((await sut.filterAsync(value => value === promise)).isPresent()).toBe(true);
+        });
+    });
+
+    describe("#toPromise", () => {
+        it("resolves to the payload when it is present.", async () => {
+            await expect(sutPresent.toPromise()).resolves.toBe(payload);
+        });
+
+        it("rejects with TypeError when it is empty.", async () => {
+            await expect(sutEmpty.toPromise()).rejects.toThrow(TypeError);
+        });
+    });
+
+    describe("#fromIterable", () => {
+        it("returns a present Optional of the first element.", () => {
+            const actual = Optional.fromIterable(["foo", "bar"]);
+            expect(actual.get()).toBe("foo");
+        });
+
+        it("returns an empty Optional when the iterable has no elements.", () => {
+            const actual = Optional.fromIterable(new Set<string>());
+            expect(actual.isEmpty()).toBe(true);
+        });
+
+        it("returns an empty Optional when the first element is null.", () => {
+            const actual = Optional.fromIterable([null, "bar"]);
+            expect(actual.isEmpty()).toBe(true);
+        });
+    });
+
+    describe("#single", () => {
+        it("returns a present Optional when the iterable has exactly one element.", () => {
+            const actual = Optional.single(["foo"]);
+            expect(actual.get()).toBe("foo");
+        });
+
+        it("returns an empty Optional when the iterable has no elements.", () => {
+            const actual = Optional.single<string>([]);
+            expect(actual.isEmpty()).toBe(true);
+        });
+
+        it("returns an empty Optional when the iterable has more than one element.", () => {
+            const actual = Optional.single(["foo", "bar"]);
+            expect(actual.isEmpty()).toBe(true);
+        });
+    });
+
+    describe("#findFirst", () => {
+        it("returns a present Optional of the first element which matches the predicate.", () => {
+            const actual = Optional.findFirst(["a", "bb", "cc"], x => x.length === 2);
+            expect(actual.get()).toBe("bb");
+        });
+
+        it("returns an empty Optional when no elements match the predicate.", () => {
+            const actual = Optional.findFirst(["a", "bb", "cc"], x => x.length === 3);
+            expect(actual.isEmpty()).toBe(true);
+        });
+    });
+
+    describe("#[Symbol.iterator]", () => {
+        it("yields the payload when it is present.", () => {
+            expect([...sutPresent]).toStrictEqual([payload]);
+        });
+
+        it("yields nothing when it is empty.", () => {
+            const values: string[] = [];
+            for (const value of sutEmpty)
+                values.push(value);
+            expect(values).toStrictEqual([]);
+        });
+
+        it("yields the payload in for await as well.", async () => {
+            const values: string[] = [];
+            for await (const value of sutPresent)
+                values.push(value);
+            expect(values).toStrictEqual([payload]);
+        });
+
+        it("does not claim to return the payload to yield*.", () => {
+            const actual = Optional.gen(function*() {
+                // @ts-expect-error
+                const a: number = yield* Optional.empty<number>();
+                return a;
+            });
+            expect(actual.isEmpty()).toBe(true);
+        });
+    });
+
+    describe("#toArray", () => {
+        it("returns an array of the payload when it is present.", () => {
+            expect(sutPresent.toArray()).toStrictEqual([payload]);
+        });
+
+        it("returns an empty array when it is empty.", () => {
+            expect(sutEmpty.toArray()).toStrictEqual([]);
+        });
+
+        it("can be used with Array#flatMap to collect payloads.", () => {
+            const actual = [sutPresent, sutEmpty, sutPresent].flatMap(x => x.toArray());
+            expect(actual).toStrictEqual([payload, payload]);
+        });
+    });
+
+    describe("#equals", () => {
+        it("returns true when both are present and their payloads are equal.", () => {
+            expect(sutPresent.equals(Optional.ofNonNull(payload))).toBe(true);
+        });
+
+        it("returns false when both are present and their payloads are not equal.", () => {
+            expect(sutPresent.equals(Optional.ofNonNull("bar"))).toBe(false);
+        });
+
+        it("returns true when both are empty.", () => {
+            expect(sutEmpty.equals(Optional.empty())).toBe(true);
+        });
+
+        it("returns false when one is present and the other is empty.", () => {
+            expect(sutPresent.equals(sutEmpty)).toBe(false);
+            expect(sutEmpty.equals(sutPresent)).toBe(false);
+        });
+
+        it("treats NaN payloads as equal.", () => {
+            expect(Optional.ofNonNull(NaN).equals(Optional.ofNonNull(NaN))).toBe(true);
+        });
+
+        it("compares payloads with the given comparator.", () => {
+            const equality = (left: string, right: string) => left.toLowerCase() === right.toLowerCase();
+            expect(sutPresent.equals(Optional.ofNonNull("FOO"), equality)).toBe(true);
+        });
+    });
+
+    describe("#hashCode", () => {
+        it("returns the same hash code for equal Optionals.", () => {
+            expect(sutPresent.hashCode()).toBe(Optional.ofNonNull(payload).hashCode());
+            expect(Optional.ofNonNull(0).hashCode()).toBe(Optional.ofNonNull(-0).hashCode());
+            const object = {};
+            expect(Optional.ofNonNull(object).hashCode()).toBe(Optional.ofNonNull(object).hashCode());
+        });
+
+        it("returns different hash codes for distinct objects.", () => {
+            expect(Optional.ofNonNull({}).hashCode()).not.toBe(Optional.ofNonNull({}).hashCode());
+        });
+
+        it("returns 0 when it is empty.", () => {
+            expect(sutEmpty.hashCode()).toBe(0);
+        });
+
+        it("computes the hash code with the given hasher.", () => {
+            expect(sutPresent.hashCode(x => x.length)).toBe(payload.length);
+        });
+    });
+
+    describe("#toString", () => {
+        it("returns a string which contains the payload when it is present.", () => {
+            expect(sutPresent.toString()).toBe("Optional[foo]");
+        });
+
+        it("returns 'Optional.empty' when it is empty.", () => {
+            expect(sutEmpty.toString()).toBe("Optional.empty");
+        });
+
+        it("returns a string even if the payload cannot be converted into a primitive.", () => {
+            expect(Optional.ofNonNull(Object.create(null)).toString()).toBe("Optional[[object Object]]");
+        });
+    });
+
+    describe("util.inspect", () => {
+        it("shows the inspected payload when it is present.", () => {
+            expect(inspect(Optional.ofNonNull({ a: 1 }))).toBe("Optional[{ a: 1 }]");
+        });
+
+        it("shows 'Optional.empty' when it is empty.", () => {
+            expect(inspect(sutEmpty)).toBe("Optional.empty");
+        });
+    });
+
+    describe("#okOr", () => {
+        const error = new Error("failed");
+
+        it("returns an ok Result when it is present.", () => {
+            expect(sutPresent.okOr(error).get()).toBe(payload);
+        });
+
+        it("returns an error Result of the given error when it is empty.", () => {
+            expect(sutEmpty.okOr(error).getErr()).toBe(error);
+        });
+    });
+
+    describe("#okOrElse", () => {
+        const error = new Error("failed");
+
+        it("does not call the supplier when it is present.", () => {
+            const supplier = jest.fn(() => error);
+            expect(sutPresent.okOrElse(supplier).get()).toBe(payload);
+            expect(supplier).not.toHaveBeenCalled();
+        });
+
+        it("returns an error Result of the supplied error when it is empty.", () => {
+            expect(sutEmpty.okOrElse(() => error).getErr()).toBe(error);
+        });
+    });
+
+    describe("#all", () => {
+        it("returns a present Optional of the payloads when all of them are present.", () => {
+            const actual: Optional<[string, number]> = Optional.all([sutPresent, Optional.ofNonNull(1)]);
+            expect(actual.get()).toStrictEqual([payload, 1]);
+        });
+
+        it("returns an empty Optional when some of them are empty.", () => {
+            const actual = Optional.all([sutPresent, sutEmpty]);
+            expect(actual.isEmpty()).toBe(true);
+        });
+
+        it("returns a present Optional of an empty array when it is given no Optionals.", () => {
+            const actual = Optional.all([]);
+            expect(actual.get()).toStrictEqual([]);
+        });
+    });
+
+    describe("#sequence", () => {
+        it("is an alias of Optional.all.", () => {
+            const actual: Optional<string[]> = Optional.sequence([sutPresent, sutPresent] as Array<Optional<string>>);
+            expect(actual.get()).toStrictEqual([payload, payload]);
+            expect(Optional.sequence([sutEmpty]).isEmpty()).toBe(true);
+        });
+    });
+
+    describe("#traverse", () => {
+        const parse = (x: string) => Optional.ofNonNull(Number(x)).filter(n => !isNaN(n));
+
+        it("returns a present Optional of the mapped payloads when all of them are present.", () => {
+            const actual = Optional.traverse(["1", "2"], parse);
+            expect(actual.get()).toStrictEqual([1, 2]);
+        });
+
+        it("returns an empty Optional and stops mapping when one of them is empty.", () => {
+            const mapper = jest.fn(parse);
+            const actual = Optional.traverse(["1", "x", "2"], mapper);
+            expect(actual.isEmpty()).toBe(true);
+            expect(mapper).toHaveBeenCalledTimes(2);
+        });
+    });
+
+    describe("#firstPresent", () => {
+        it("returns the first present Optional and does not call the remaining suppliers.", () => {
+            const last = jest.fn(() => Optional.ofNonNull("baz"));
+            const actual = Optional.firstPresent(() => sutEmpty, () => Optional.ofNonNull("bar"), last);
+            expect(actual.get()).toBe("bar");
+            expect(last).not.toHaveBeenCalled();
+        });
+
+        it("returns an empty Optional when none of the suppliers returns a present Optional.", () => {
+            const actual = Optional.firstPresent(() => sutEmpty, () => sutEmpty);
+            expect(actual.isEmpty()).toBe(true);
+        });
+    });
+
+    describe("#catOptionals", () => {
+        it("returns the payloads of present Optionals.", () => {
+            const actual: Array<string | number> = Optional.catOptionals([sutPresent, sutEmpty, Optional.ofNonNull(1)]);
+            expect(actual).toStrictEqual([payload, 1]);
+        });
+
+        it("accepts an iterable.", () => {
+            const actual = Optional.catOptionals(new Set([sutPresent, sutEmpty]));
+            expect(actual).toStrictEqual([payload]);
+        });
+    });
+
+    describe("#partition", () => {
+        it("partitions the Optionals into present payloads and the number of empty ones.", () => {
+            const actual = Optional.partition([sutPresent, sutEmpty, sutEmpty, Optional.ofNonNull(1)]);
+            expect(actual).toStrictEqual({ present: [payload, 1], empty: 2 });
+        });
+    });
+
+    describe("#zip", () => {
+        it("returns a present Optional of a pair when both are present.", () => {
+            const actual: Optional<[string, number]> = sutPresent.zip(Optional.ofNonNull(1));
+            expect(actual.get()).toStrictEqual([payload, 1]);
+        });
+
+        it("returns an empty Optional when either is empty.", () => {
+            expect(sutPresent.zip(sutEmpty).isEmpty()).toBe(true);
+            expect(sutEmpty.zip(sutPresent).isEmpty()).toBe(true);
+        });
+    });
+
+    describe("#zipWith", () => {
+        const combiner = (left: string, right: number) => left.repeat(right);
+
+        it("returns a present Optional of the combined payloads when both are present.", () => {
+            const actual = sutPresent.zipWith(Optional.ofNonNull(2), combiner);
+            expect(actual.get()).toBe(payload.repeat(2));
+        });
+
+        it("returns an empty Optional when either is empty.", () => {
+            expect(sutPresent.zipWith(Optional.empty<number>(), combiner).isEmpty()).toBe(true);
+            expect(sutEmpty.zipWith(Optional.ofNonNull(2), combiner).isEmpty()).toBe(true);
+        });
+
+        it("returns an empty Optional when the combiner returns null.", () => {
+            const actual = sutPresent.zipWith(sutPresent, (left, right) => null);
+            expect(actual.isEmpty()).toBe(true);
+        });
+    });
+
+    describe("#combine", () => {
+        it("returns a present Optional of the combined payloads when all of them are present.", () => {
+            const actual = Optional.combine(
+                sutPresent, Optional.ofNonNull(2), Optional.ofNonNull(true),
+                (a, b, c) => `${a.repeat(b)}:${c}`,
+            );
+            expect(actual.get()).toBe("foofoo:true");
+        });
+
+        it("returns an empty Optional without calling the combiner when some of them are empty.", () => {
+            const combiner = jest.fn((a: string, b: string) => a + b);
+            const actual = Optional.combine(sutPresent, sutEmpty, combiner);
+            expect(actual.isEmpty()).toBe(true);
+            expect(combiner).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("#and", () => {
+        const other = Optional.ofNonNull(1);
+
+        it("returns the other Optional when it is present.", () => {
+            expect(sutPresent.and(other)).toBe(other);
+        });
+
+        it("returns an empty Optional when it is empty.", () => {
+            expect(sutEmpty.and(other).isEmpty()).toBe(true);
+        });
+    });
+
+    describe("#xor", () => {
+        const other = Optional.ofNonNull("bar");
+
+        it("returns the present one when exactly one of them is present.", () => {
+            expect(sutPresent.xor(sutEmpty)).toBe(sutPresent);
+            expect(sutEmpty.xor(other)).toBe(other);
+        });
+
+        it("returns an empty Optional when both are present or both are empty.", () => {
+            expect(sutPresent.xor(other).isEmpty()).toBe(true);
+            expect(sutEmpty.xor(sutEmpty).isEmpty()).toBe(true);
+        });
+    });
+
+    describe("#kind", () => {
+        it("returns 'present' when it is present.", () => {
+            expect(sutPresent.kind).toBe("present");
+        });
+
+        it("returns 'empty' when it is empty.", () => {
+            expect(sutEmpty.kind).toBe("empty");
+        });
+    });
+
+    describe("type guards", () => {
+        it("narrows an Optional into a PresentOptional by isPresent.", () => {
+            const sut: Optional<string> = sutPresent;
+            expect(sut).toBeInstanceOf(PresentOptional);
+            if (sut.isPresent()) {
+                const actual: string = sut.value;
+                expect(actual).toBe(payload);
+            }
+        });
+
+        it("narrows an Optional into an EmptyOptional by isEmpty.", () => {
+            const sut: Optional<string> = sutEmpty;
+            expect(sut).toBeInstanceOf(EmptyOptional);
+            if (sut.isEmpty()) {
+                const actual: EmptyOptional<string> = sut;
+                expect(actual.kind).toBe("empty");
+            }
+        });
+
+        it("rejects null and undefined given to the constructor of PresentOptional.", () => {
+            expect(() => new PresentOptional(null)).toThrow(NullPayloadError);
+            expect(() => new PresentOptional(undefined)).toThrow(NullPayloadError);
+        });
+
+        it("keeps nullish payloads of lookups which distinguish them from absence.", () => {
+            const actual = Optional.get(new Map([["a", null]]), "a");
+            expect(actual).toBeInstanceOf(PresentOptional);
+            expect(actual.isPresent()).toBe(true);
+            expect(actual.get()).toBeNull();
+            expect(Object.isFrozen(actual)).toBe(true);
+        });
+    });
+
+    describe("#narrow", () => {
+        const lengthOf = (optional: Optional<string>): number => {
+            const narrowed = optional.narrow();
+            switch (narrowed.kind) {
+                case "present": return narrowed.value.length;
+                case "empty": return 0;
+                default: {
+                    const exhaustive: never = narrowed;
+                    return exhaustive;
+                }
+            }
+        };
+
+        it("returns itself, which can be narrowed by switch on kind.", () => {
+            expect(sutPresent.narrow()).toBe(sutPresent);
+            expect(lengthOf(sutPresent)).toBe(payload.length);
+            expect(lengthOf(sutEmpty)).toBe(0);
+        });
+    });
+
+    describe("#configureJSON", () => {
+        afterEach(() => Optional.configureJSON("bare"));
+
+        it("serializes Optionals in their Option form in 'tagged' mode.", () => {
+            Optional.configureJSON("tagged");
+            const actual = JSON.parse(JSON.stringify({ foo: sutPresent, bar: sutEmpty }));
+            expect(actual).toStrictEqual({ foo: { kind: "present", value: payload }, bar: { kind: "empty" } });
+        });
+
+        it("serializes Optionals as bare values in 'bare' mode.", () => {
+            Optional.configureJSON("bare");
+            const actual = JSON.parse(JSON.stringify({ foo: sutPresent, bar: sutEmpty }));
+            expect(actual).toStrictEqual({ foo: payload, bar: null });
+        });
+    });
+
+    describe("#reviver", () => {
+        const json = JSON.stringify({ users: [{ name: "foo", nickname: "bar" }, { name: "baz", nickname: null }] });
+
+        it("restores Optionals at the locations matched by path patterns.", () => {
+            const actual = JSON.parse(json, Optional.reviver(["users.*.nickname"]));
+            expect(actual.users[0].name).toBe("foo");
+            expect(actual.users[0].nickname.get()).toBe("bar");
+            expect(actual.users[1].nickname.isEmpty()).toBe(true);
+        });
+
+        it("restores Optionals at the locations matched by a predicate.", () => {
+            const actual = JSON.parse(json, Optional.reviver(path => path[path.length - 1] === "nickname"));
+            expect(actual.users[0].nickname.get()).toBe("bar");
+            expect(actual.users[1].nickname.isEmpty()).toBe(true);
+        });
+
+        it("restores Optionals of tagged form in 'tagged' mode.", () => {
+            const tagged = JSON.stringify({ foo: { kind: "present", value: payload }, bar: { kind: "empty" } });
+            const actual = JSON.parse(tagged, Optional.reviver(["foo", "bar"], "tagged"));
+            expect(actual.foo.get()).toBe(payload);
+            expect(actual.bar.isEmpty()).toBe(true);
+        });
+
+        it("restores a root Optional.", () => {
+            const actual = JSON.parse(JSON.stringify(sutPresent), Optional.reviver(path => path.length === 0));
+            expect(actual.get()).toBe(payload);
+        });
+
+        it("does not mistake a nested property named \"\" for the root.", () => {
+            const actual = JSON.parse(`{"x":{"":{"kind":"a"}}}`, Optional.reviver(["x..kind", "kind"]));
+            expect(actual.x[""].kind.get()).toBe("a");
+        });
+
+        it("throws TypeError when a selected location does not hold a tagged Optional in 'tagged' mode.", () => {
+            expect(() => JSON.parse(`{"foo":null}`, Optional.reviver(["foo"], "tagged")))
+                .toThrow(new TypeError("The value at [foo] was not a tagged Optional: null"));
+        });
+
+        it("throws TypeError when a tagged present Optional has a null payload in 'tagged' mode.", () => {
+            const text = `{"foo":{"kind":"present","value":null}}`;
+            expect(() => JSON.parse(text, Optional.reviver(["foo"], "tagged"))).toThrow(new TypeError(
+                `The value at [foo] was not a tagged Optional: {"kind":"present","value":null}`));
+            expect(() => Optional.deserialize(`{"foo":{"kind":"present"}}`, ["foo"], { mode: "tagged" }))
+                .toThrow(new TypeError(`The value at [foo] was not a tagged Optional: {"kind":"present"}`));
+        });
+    });
+
+    describe("#serialize and #deserialize", () => {
+        interface User {
+            name: string;
+            nickname: Optional<string>;
+            manager: Optional<{ name: string, nickname: Optional<string> }>;
+        }
+
+        const user: User = {
+            name: "foo",
+            nickname: Optional.empty(),
+            manager: Optional.ofNonNull({ name: "bar", nickname: Optional.ofNonNull("baz") }),
+        };
+        const selector = ["nickname", "manager", "manager.nickname"];
+
+        it("round-trips an object graph in 'tagged' mode.", () => {
+            const text = Optional.serialize(user, { mode: "tagged" });
+            const actual = Optional.deserialize<User>(text, selector, { mode: "tagged" });
+            expect(actual.name).toBe("foo");
+            expect(actual.nickname.isEmpty()).toBe(true);
+            expect(actual.manager.get().name).toBe("bar");
+            expect(actual.manager.get().nickname.get()).toBe("baz");
+        });
+
+        it("round-trips an object graph in 'bare' mode.", () => {
+            const text = Optional.serialize(user, { mode: "bare" });
+            const actual = Optional.deserialize<User>(text, selector, { mode: "bare" });
+            expect(actual.nickname.isEmpty()).toBe(true);
+            expect(actual.manager.get().nickname.get()).toBe("baz");
+        });
+
+        it("does not change the configured mode.", () => {
+            Optional.serialize(user, { mode: "tagged" });
+            expect(JSON.stringify(sutPresent)).toBe(JSON.stringify(payload));
+        });
+
+        it("selects locations only by paths from the root.", () => {
+            const paths: string[] = [];
+            const select = (path: ReadonlyArray<string | number>) => {
+                paths.push(path.join("."));
+                return path.join(".") === "x..kind";
+            };
+            const actual = Optional.deserialize<any>(`{"x":{"":{"kind":"a"}}}`, select);
+            expect(actual.x[""].kind.get()).toBe("a");
+            expect(paths).toEqual(["", "x", "x.", "x..kind"]);
+        });
+    });
+
+    describe("#wrapFields and #unwrapFields", () => {
+        interface AddressDTO {
+            city: string | null;
+        }
+
+        interface UserDTO {
+            id: number;
+            nickname: string | null;
+            bio?: string;
+            createdAt: Date;
+            addresses: AddressDTO[];
+        }
+
+        const createdAt = new Date(0);
+        const dto: UserDTO = {
+            id: 1,
+            nickname: null,
+            createdAt,
+            addresses: [{ city: "Tokyo" }, { city: null }],
+        };
+
+        it("should wrap the given fields recursively.", () => {
+            const actual = Optional.wrapFields(dto, ["nickname", "addresses"]);
+            const id: number = actual.id;
+            const nickname: Optional<string> = actual.nickname;
+            const cities: Array<Optional<string>> = actual.addresses.get().map(address => address.city);
+
+            expect(id).toBe(1);
+            expect(nickname.isEmpty()).toBe(true);
+            expect(cities.map(city => city.orNull())).toEqual(["Tokyo", null]);
+            expect(actual.createdAt).toBe(createdAt);
+            expect(dto.nickname).toBeNull();
+        });
+
+        it("should wrap all the own fields by default, "
+                + "leaving absent fields and built-in objects as they are.", () => {
+            const actual = Optional.wrapFields(dto);
+            const createdAtOptional: Optional<Date> = actual.createdAt;
+
+            expect(actual.id.get()).toBe(1);
+            expect(createdAtOptional.get()).toBe(createdAt);
+            expect("bio" in actual).toBe(false);
+        });
+
+        it("should keep fields which are already Optionals.", () => {
+            const nickname = Optional.ofNonNull("foo");
+            const actual = Optional.wrapFields({ nickname, age: 20 as number | undefined });
+            const age: Optional<number> = actual.age;
+            expect(actual.nickname).toBe(nickname);
+            expect(age.get()).toBe(20);
+        });
+
+        it("should unwrap Optionals recursively into null by default.", () => {
+            const actual = Optional.unwrapFields(Optional.wrapFields(dto));
+            const nickname: string | null = actual.nickname;
+            const city: string | null = actual.addresses![0].city;
+
+            expect(actual).toEqual(dto);
+            expect(nickname).toBeNull();
+            expect(city).toBe("Tokyo");
+        });
+
+        it("should unwrap empty Optionals into undefined if specified.", () => {
+            const domain = {
+                name: Optional.empty<string>(),
+                tags: [Optional.ofNonNull("a"), Optional.empty<string>()],
+            };
+            const actual = Optional.unwrapFields(domain, { as: "undefined" });
+            const tags: Array<string | undefined> = actual.tags;
+
+            expect(actual.name).toBeUndefined();
+            expect(tags).toEqual(["a", undefined]);
+        });
+
+        it("should convert class instances as their types describe, keeping their prototypes.", () => {
+            class Money {
+                constructor(readonly amount: number | null) {}
+
+                isKnown(): boolean {
+                    return this.amount !== null;
+                }
+            }
+
+            const wrapped = Optional.wrapFields({ price: new Money(null) as Money | null });
+            const wrappedAmount: Optional<number> = wrapped.price.get().amount;
+            expect(wrappedAmount.isEmpty()).toBe(true);
+            expect(wrapped.price.get()).toBeInstanceOf(Money);
+            const isKnown: () => boolean = wrapped.price.get().isKnown;
+            expect(isKnown).toBe(Money.prototype.isKnown);
+
+            const unwrapped = Optional.unwrapFields(wrapped);
+            const price: Money | null = unwrapped.price;
+            expect(price).toBeInstanceOf(Money);
+            expect(price!.isKnown()).toBe(false);
+        });
+
+        it("should leave built-in objects as they are.", () => {
+            const bytes = new Uint8Array([1, 2]);
+            const tags = new Set(["a"]);
+            const actual = Optional.unwrapFields(Optional.wrapFields({ bytes, tags }));
+            expect(actual.bytes).toBe(bytes);
+            expect(actual.tags).toBe(tags);
+        });
+    });
+
+    describe("#path", () => {
+        interface Response {
+            user?: {
+                name: string;
+                address: { city: string | null } | null;
+                tags: string[];
+            };
+        }
+
+        const response: Response = {
+            user: { name: "foo", address: { city: null }, tags: ["bar", "baz"] },
+        };
+        const sut = Optional.ofNonNull(response);
+
+        it("returns a present Optional of the value at the given path.", () => {
+            const actual: Optional<string> = sut.path("user", "name");
+            expect(actual.get()).toBe("foo");
+        });
+
+        it("navigates array indexes.", () => {
+            const actual: Optional<string> = sut.path("user", "tags", 1);
+            expect(actual.get()).toBe("baz");
+            expect(sut.path("user", "tags", 2).isEmpty()).toBe(true);
+        });
+
+        it("returns an empty Optional when null or undefined is found on the way.", () => {
+            const actual: Optional<string> = sut.path("user", "address", "city");
+            expect(actual.isEmpty()).toBe(true);
+            expect(Optional.ofNonNull<Response>({}).path("user", "address", "city").isEmpty()).toBe(true);
+        });
+
+        it("returns an empty Optional when it is empty.", () => {
+            expect(Optional.empty<Response>().path("user").isEmpty()).toBe(true);
+        });
+    });
+
+    describe("#lazy", () => {
+        it("does not call the supplier until a terminal operation is performed.", () => {
+            const supplier = jest.fn(() => payload);
+            const sut = Optional.lazy(supplier).map(x => x.length).filter(x => x > 0);
+            expect(supplier).not.toHaveBeenCalled();
+            expect(sut.get()).toBe(payload.length);
+            expect(supplier).toHaveBeenCalledTimes(1);
+        });
+
+        it("memoizes the result of the supplier.", () => {
+            const supplier = jest.fn(() => payload);
+            const sut = Optional.lazy(supplier);
+            expect(sut.isPresent()).toBe(true);
+            expect(sut.orElse("bar")).toBe(payload);
+            expect(sut.matches({ present: x => x, empty: () => "bar" })).toBe(payload);
+            expect(supplier).toHaveBeenCalledTimes(1);
+        });
+
+        it("keeps mappers lazy and evaluates each of them once.", () => {
+            const mapper = jest.fn((x: string) => x.length);
+            const sut = Optional.lazy(() => payload).map(mapper);
+            expect(mapper).not.toHaveBeenCalled();
+            expect(sut.orElse(0)).toBe(payload.length);
+            expect(sut.orElse(0)).toBe(payload.length);
+            expect(mapper).toHaveBeenCalledTimes(1);
+        });
+
+        it("is empty when the supplier returns null.", () => {
+            const sut = Optional.lazy<string>(() => null);
+            expect(sut.isEmpty()).toBe(true);
+            expect(sut.flatMap(x => Optional.ofNonNull(x.length)).isEmpty()).toBe(true);
+            expect(sut.kind).toBe("empty");
+        });
+
+        it("provides the payload through the type guard.", () => {
+            const sut = Optional.lazy(() => payload);
+            expect(sut.isPresent() && sut.value).toBe(payload);
+            expect(sut.narrow()).toBeInstanceOf(PresentOptional);
+        });
+
+        it("does not evaluate the supplier when it is inspected.", () => {
+            const supplier = jest.fn(() => payload);
+            const sut = Optional.lazy(supplier);
+            expect(inspect(sut)).toBe("Optional.lazy");
+            expect(supplier).not.toHaveBeenCalled();
+            expect(sut.toString()).toBe("Optional[foo]");
+            expect(inspect(sut)).toBe("Optional['foo']");
+        });
+    });
+
+    describe("#gen", () => {
+        const half = (x: number): Optional<number> => x % 2 === 0 ? Optional.ofNonNull(x / 2) : Optional.empty();
+
+        it("binds payloads of present Optionals and returns the result.", () => {
+            const actual: Optional<string> = Optional.gen(function*() {
+                const a: string = yield* sutPresent.bind();
+                const b: number = yield* half(8).bind();
+                const c: number = yield* half(b).bind();
+                return `${a}:${c}`;
+            });
+            expect(actual.get()).toBe("foo:2");
+        });
+
+        it("short-circuits the block when an empty Optional is yielded.", () => {
+            let reached = false;
+            let finalized = false;
+            const actual = Optional.gen(function*() {
+                try {
+                    const a = yield* half(3).bind();
+                    reached = true;
+                    return a;
+                } finally {
+                    finalized = true;
+                }
+            });
+            expect(actual.isEmpty()).toBe(true);
+            expect(reached).toBe(false);
+            expect(finalized).toBe(true);
+        });
+
+        it("returns an empty Optional when the block returns null.", () => {
+            const actual = Optional.gen(function*() {
+                yield* sutPresent.bind();
+                return null;
+            });
+            expect(actual.isEmpty()).toBe(true);
+        });
+
+        it("does not affect iteration of Optionals outside of the block.", () => {
+            Optional.gen(function*() {
+                return yield* sutPresent.bind();
+            });
+            expect([...sutEmpty]).toStrictEqual([]);
+        });
+
+        it("does not affect iteration of Optionals inside of the block.", () => {
+            const actual = Optional.gen(function*() {
+                yield* Optional.ofNonNull(1).bind();
+                return Array.from(Optional.empty()).length;
+            });
+            expect(actual.get()).toBe(0);
+        });
+
+        it("short-circuits the block with a lazy Optional.", () => {
+            const actual = Optional.gen(function*() {
+                return yield* Optional.lazy<number>(() => null).bind();
+            });
+            expect(actual.isEmpty()).toBe(true);
+        });
+    });
+
+    describe("#genAsync", () => {
+        it("binds payloads of Optionals and AsyncOptionals and resolves the result.", async () => {
+            const actual = await Optional.genAsync(async function*() {
+                const a: string = yield* sutPresent.bind();
+                const b: number = yield* Optional.fromPromise(Promise.resolve(a.length)).bind();
+                const c: number = yield* Optional.lazy(() => b * 2).bind();
+                return a.repeat(c);
+            });
+            expect(actual.get()).toBe(payload.repeat(payload.length * 2));
+        });
+
+        it("short-circuits the block when an empty Optional is yielded after await.", async () => {
+            let reached = false;
+            const actual = await Optional.genAsync(async function*() {
+                const a = await Promise.resolve(1);
+                const b = yield* AsyncOptional.empty<number>().bind();
+                reached = true;
+                return a + b;
+            });
+            expect(actual.isEmpty()).toBe(true);
+            expect(reached).toBe(false);
+        });
+
+        it("accepts Optional#bind as well.", async () => {
+            const actual = await Optional.genAsync(async function*() {
+                const a: string = yield* sutPresent.bind();
+                return yield* Optional.empty<string>().bind();
+            });
+            expect(actual.isEmpty()).toBe(true);
+        });
+    });
+
+    describe("#try", () => {
+        it("returns a present Optional when the supplier returns a value.", () => {
+            expect(Optional.try(() => JSON.parse("1")).get()).toBe(1);
+        });
+
+        it("returns an empty Optional when the supplier returns null.", () => {
+            expect(Optional.try(() => JSON.parse("null")).isEmpty()).toBe(true);
+        });
+
+        it("returns an empty Optional when the supplier throws an error.", () => {
+            expect(Optional.try(() => JSON.parse("{")).isEmpty()).toBe(true);
+        });
+
+        it("captures only errors of the given classes.", () => {
+            expect(Optional.try(() => JSON.parse("{"), [SyntaxError]).isEmpty()).toBe(true);
+            expect(() => Optional.try(() => BigInt(null as any), [SyntaxError])).toThrow(TypeError);
+        });
+
+        it("captures only errors which pass the given predicate.", () => {
+            const filter = (error: unknown) => error instanceof Error && error.message === "expected";
+            expect(Optional.try(() => { throw new Error("expected"); }, filter).isEmpty()).toBe(true);
+            expect(() => Optional.try(() => { throw new Error("unexpected"); }, filter)).toThrow("unexpected");
+        });
+    });
+
+    describe("#fromThrowable", () => {
+        const parse = Optional.fromThrowable((text: string): number | null => JSON.parse(text), [SyntaxError]);
+
+        it("returns a function which returns a present Optional when the function returns a value.", () => {
+            expect(parse("42").get()).toBe(42);
+        });
+
+        it("returns a function which returns an empty Optional when the function throws an error.", () => {
+            expect(parse("forty-two").isEmpty()).toBe(true);
+        });
+    });
+
+    describe("#mapTry", () => {
+        it("maps a payload when the mapper returns a value.", () => {
+            expect(Optional.ofNonNull("42").mapTry(BigInt).get()).toBe(BigInt(42));
+        });
+
+        it("returns an empty Optional when the mapper throws an error.", () => {
+            expect(Optional.ofNonNull("forty-two").mapTry(BigInt, [SyntaxError]).isEmpty()).toBe(true);
+        });
+
+        it("rethrows an error which does not pass the filter.", () => {
+            expect(() => Optional.ofNonNull("forty-two").mapTry(BigInt, [TypeError])).toThrow(SyntaxError);
+        });
+
+        it("does not call the mapper when empty.", () => {
+            const mapper = jest.fn();
+            expect(sutEmpty.mapTry(mapper).isEmpty()).toBe(true);
+            expect(mapper).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("#configureDebug", () => {
+        afterEach(() => Optional.configureDebug(false));
+
+        const originOf = (optional: Optional<unknown>): string | undefined => {
+            try {
+                optional.get();
+                return undefined;
+            } catch (error) {
+                return (error as NoSuchElementError).origin;
+            }
+        };
+
+        it("does not record origins by default.", () => {
+            expect(originOf(sutPresent.filter(x => false))).toBeUndefined();
+        });
+
+        it("records the operation and the call site which produced an empty Optional.", () => {
+            Optional.configureDebug(true);
+            const actual = sutPresent.map(x => x.length).filter(x => x > 5).map(x => x * 2);
+            expect(originOf(actual)).toMatch(/^filter at .*optional\.spec\.ts:\d+:\d+/);
+            expect(() => actual.get()).toThrow(/^The optional is not present\. \(emptied by filter at /);
+        });
+
+        it("records the mapper which returned null.", () => {
+            Optional.configureDebug(true);
+            expect(originOf(sutPresent.map(x => null))).toMatch(/^map at /);
+        });
+
+        it("records the factory which produced an empty Optional.", () => {
+            Optional.configureDebug(true);
+            expect(originOf(Optional.ofNullable(null))).toMatch(/^Optional\.ofNullable at /);
+            expect(originOf(sutPresent.flatMap(x => Optional.empty()))).toMatch(/^Optional\.empty at /);
+        });
+
+        it("keeps the origin through a lazy Optional.", () => {
+            Optional.configureDebug(true);
+            expect(originOf(Optional.lazy(() => payload).filter(x => false))).toMatch(/^filter at /);
+        });
+
+        it("records the operation which actually produced an empty Optional.", () => {
+            Optional.configureDebug(true);
+            expect(originOf(Optional.try(() => { throw new Error(); }))).toMatch(/^Optional\.try at /);
+            expect(originOf(sutPresent.mapTry(x => { throw new Error(); }))).toMatch(/^mapTry at /);
+            expect(originOf(Optional.ofNonNull({ a: null }).path("a"))).toMatch(/^path at /);
+            expect(originOf(Optional.all([sutPresent, sutEmpty]))).toMatch(/^Optional\.all at /);
+        });
+
+        it("records the call site outside of the library.", () => {
+            Optional.configureDebug(true);
+            const looked = new OptionalMap<string, number>().get("a");
+            expect(originOf(looked)).toMatch(/^Optional\.get at .*optional\.spec\.ts:/);
+            const wrapped = Optional.wrapFields({ a: null as number | null });
+            expect(originOf(wrapped.a)).toMatch(/^Optional\.ofNullable at .*optional\.spec\.ts:/);
+        });
+    });
+
+    describe("#compareTo", () => {
+        it("orders an empty Optional before a present one.", () => {
+            expect(sutEmpty.compareTo(sutPresent)).toBeLessThan(0);
+            expect(sutPresent.compareTo(sutEmpty)).toBeGreaterThan(0);
+            expect(sutEmpty.compareTo(Optional.empty())).toBe(0);
+        });
+
+        it("compares payloads with the natural order by default.", () => {
+            expect(Optional.of(1).compareTo(Optional.of(2))).toBeLessThan(0);
+            expect(Optional.of("b").compareTo(Optional.of("a"))).toBeGreaterThan(0);
+            expect(Optional.of(1).compareTo(Optional.of(1))).toBe(0);
+        });
+
+        it("compares payloads with the given comparator.", () => {
+            expect(Optional.of(1).compareTo(Optional.of(2), (a, b) => b - a)).toBeGreaterThan(0);
+        });
+    });
+
+    describe("#comparator", () => {
+        const optionals = [Optional.of(3), Optional.empty<number>(), Optional.of(1), Optional.of(2)];
+
+        it("sorts empty Optionals first by default.", () => {
+            const actual = [...optionals].sort(Optional.comparator()).map(x => x.orNull());
+            expect(actual).toStrictEqual([null, 1, 2, 3]);
+        });
+
+        it("sorts empty Optionals last when specified.", () => {
+            const actual = [...optionals].sort(Optional.comparator(undefined, { empty: "last" })).map(x => x.orNull());
+            expect(actual).toStrictEqual([1, 2, 3, null]);
+        });
+
+        it("sorts payloads with the given comparator.", () => {
+            const descending = Optional.comparator<number>((a, b) => b - a, { empty: "last" });
+            expect([...optionals].sort(descending).map(x => x.orNull())).toStrictEqual([3, 2, 1, null]);
+        });
+    });
+
+    describe("#comparing", () => {
+        it("sorts objects by Optional fields extracted by the given key.", () => {
+            interface Employee { name: string; retiredAt: Optional<Date>; }
+            const employees: Employee[] = [
+                { name: "a", retiredAt: Optional.of(new Date(2020, 0)) },
+                { name: "b", retiredAt: Optional.empty() },
+                { name: "c", retiredAt: Optional.of(new Date(2010, 0)) },
+            ];
+            const actual = employees.sort(Optional.comparing(e => e.retiredAt, undefined, { empty: "last" }));
+            expect(actual.map(e => e.name)).toStrictEqual(["c", "a", "b"]);
+        });
+    });
+
+    describe("#max and #min", () => {
+        const optionals = [Optional.of(2), Optional.empty<number>(), Optional.of(3), Optional.of(1)];
+
+        it("returns the greatest or least payload of present Optionals.", () => {
+            expect(Optional.max(optionals).get()).toBe(3);
+            expect(Optional.min(optionals).get()).toBe(1);
+        });
+
+        it("uses the given comparator.", () => {
+            const byLength = (a: string, b: string) => a.length - b.length;
+            const words = [Optional.of("bb"), Optional.of("a"), Optional.of("cc")];
+            expect(Optional.max(words, byLength).get()).toBe("bb");
+            expect(Optional.min(words, byLength).get()).toBe("a");
+        });
+
+        it("returns an empty Optional when none is present.", () => {
+            expect(Optional.max([sutEmpty, Optional.empty()]).isEmpty()).toBe(true);
+            expect(Optional.min([]).isEmpty()).toBe(true);
+        });
+    });
+
+    describe("#find", () => {
+        it("returns the first matched element.", () => {
+            expect(Optional.find([1, 2, 3, 4], x => x % 2 === 0).get()).toBe(2);
+        });
+
+        it("returns a present Optional even when the matched element is undefined.", () => {
+            expect(Optional.find([1, undefined], x => x === undefined).isPresent()).toBe(true);
+        });
+
+        it("returns an empty Optional when no elements match.", () => {
+            expect(Optional.find([1, 3], x => x % 2 === 0).isEmpty()).toBe(true);
+        });
+
+        it("narrows the type with a type guard.", () => {
+            const actual: Optional<string> = Optional.find([1, "a"], (x): x is string => typeof x === "string");
+            expect(actual.get()).toBe("a");
+        });
+    });
+
+    describe("#get", () => {
+        const map = new Map<string, number | undefined>([["a", 1], ["b", undefined]]);
+
+        it("returns a present Optional when the map has the key.", () => {
+            expect(Optional.get(map, "a").get()).toBe(1);
+            expect(Optional.get(map, "b").isPresent()).toBe(true);
+        });
+
+        it("returns an empty Optional when the map does not have the key.", () => {
+            expect(Optional.get(map, "c").isEmpty()).toBe(true);
+        });
+
+        it("accepts a WeakMap.", () => {
+            const key = {};
+            expect(Optional.get(new WeakMap([[key, "x"]]), key).get()).toBe("x");
+        });
+    });
+
+    describe("#at", () => {
+        const array = ["a", "b", undefined, "d"];
+
+        it("returns the element at the given index.", () => {
+            expect(Optional.at(array, 1).get()).toBe("b");
+            expect(Optional.at(array, 2).isPresent()).toBe(true);
+        });
+
+        it("counts a negative index back from the end.", () => {
+            expect(Optional.at(array, -1).get()).toBe("d");
+            expect(Optional.at(array, -4).get()).toBe("a");
+        });
+
+        it("returns an empty Optional when the index is out of range or not an integer.", () => {
+            expect(Optional.at(array, 4).isEmpty()).toBe(true);
+            expect(Optional.at(array, -5).isEmpty()).toBe(true);
+            expect(Optional.at(array, 1.5).isEmpty()).toBe(true);
+        });
+
+        it("returns an empty Optional for a hole of a sparse array.", () => {
+            // tslint:disable-next-line:no-sparse-arrays
+            expect(Optional.at([1, , 3], 1).isEmpty()).toBe(true);
+        });
+
+        it("accepts a string.", () => {
+            expect(Optional.at("abc", -1).get()).toBe("c");
+        });
+    });
+
+    describe("#prop", () => {
+        const record: { a: number; b?: string; c?: string } = { a: 1, b: undefined };
+
+        it("returns a present Optional when the record has the own property.", () => {
+            expect(Optional.prop(record, "a").get()).toBe(1);
+            expect(Optional.prop(record, "b").isPresent()).toBe(true);
+        });
+
+        it("returns an empty Optional when the record does not have the property.", () => {
+            expect(Optional.prop(record, "c").isEmpty()).toBe(true);
+        });
+
+        it("ignores inherited properties.", () => {
+            const dictionary: Record<string, string> = {};
+            expect(Optional.prop(dictionary, "toString").isEmpty()).toBe(true);
+        });
+    });
+
+    describe("#ofTruthy", () => {
+        it("returns a present Optional when the value is truthy.", () => {
+            const actual: Optional<string> = Optional.ofTruthy<string>("foo");
+            expect(actual.get()).toBe("foo");
+            expect(Optional.ofTruthy(1).get()).toBe(1);
+        });
+
+        it("returns an empty Optional when the value is falsy.", () => {
+            const falsy = [false, 0, -0, NaN, "", null, undefined];
+            expect(falsy.map(value => Optional.ofTruthy(value).isEmpty())).toStrictEqual(falsy.map(() => true));
+        });
+    });
+
+    describe("#ofNonEmpty", () => {
+        it("returns a present Optional when the value is not empty.", () => {
+            expect(Optional.ofNonEmpty("foo").get()).toBe("foo");
+            expect(Optional.ofNonEmpty([1]).get()).toStrictEqual([1]);
+            expect(Optional.ofNonEmpty(new Map([[1, 2]])).isPresent()).toBe(true);
+            expect(Optional.ofNonEmpty(new Set([1])).isPresent()).toBe(true);
+        });
+
+        it("returns an empty Optional when the value is empty or nullish.", () => {
+            expect(Optional.ofNonEmpty("").isEmpty()).toBe(true);
+            expect(Optional.ofNonEmpty([]).isEmpty()).toBe(true);
+            expect(Optional.ofNonEmpty(new Map()).isEmpty()).toBe(true);
+            expect(Optional.ofNonEmpty(new Set()).isEmpty()).toBe(true);
+            expect(Optional.ofNonEmpty<string>(null).isEmpty()).toBe(true);
+        });
+    });
+
+    describe("#ofFinite", () => {
+        it("returns a present Optional when the value is a finite number.", () => {
+            expect(Optional.ofFinite(0).get()).toBe(0);
+            expect(Optional.ofFinite(-1.5).get()).toBe(-1.5);
+        });
+
+        it("returns an empty Optional when the value is not a finite number.", () => {
+            expect(Optional.ofFinite(NaN).isEmpty()).toBe(true);
+            expect(Optional.ofFinite(Infinity).isEmpty()).toBe(true);
+            expect(Optional.ofFinite(parseFloat("abc")).isEmpty()).toBe(true);
+            expect(Optional.ofFinite(undefined).isEmpty()).toBe(true);
+        });
+    });
+
+    describe("#ofValid", () => {
+        const isString = (value: unknown): value is string => typeof value === "string";
+
+        it("returns a present Optional narrowed by the type guard when the value matches.", () => {
+            const actual: Optional<string> = Optional.ofValid<unknown, string>("foo", isString);
+            expect(actual.get()).toBe("foo");
+        });
+
+        it("returns an empty Optional when the value does not match.", () => {
+            expect(Optional.ofValid<unknown, string>(1, isString).isEmpty()).toBe(true);
+            expect(Optional.ofValid(-1, x => x >= 0).isEmpty()).toBe(true);
+        });
+
+        it("returns an empty Optional when the value is nullish.", () => {
+            expect(Optional.ofValid(undefined, () => true).isEmpty()).toBe(true);
+        });
+    });
+
+    describe("#filter with a type guard", () => {
+        it("narrows the payload type.", () => {
+            const shape: Optional<{ kind: "circle"; radius: number } | { kind: "square"; side: number }> =
+                Optional.of({ kind: "circle", radius: 2 });
+            const actual = shape.filter((x): x is { kind: "circle"; radius: number } => x.kind === "circle");
+            expect(actual.map(x => x.radius).get()).toBe(2);
+        });
+
+        it("narrows the payload type of a lazy Optional.", () => {
+            const actual = Optional.lazy<string | number>(() => 1).filter((x): x is number => typeof x === "number");
+            expect(actual.map(x => x.toFixed(1)).get()).toBe("1.0");
+        });
+    });
+
+    describe("immutability", () => {
+        afterEach(() => Optional.configureDebug(false));
+
+        it("shares a frozen empty instance.", () => {
+            expect(Optional.empty()).toBe(Optional.ofNullable(null));
+            expect(sutPresent.filter(x => false)).toBe(sutEmpty);
+            expect(sutEmpty.map(x => x.length)).toBe(sutEmpty);
+            expect(Object.isFrozen(sutEmpty)).toBe(true);
+        });
+
+        it("creates a distinct empty instance in debug mode to record its origin.", () => {
+            Optional.configureDebug(true);
+            const actual = Optional.empty();
+            expect(actual).not.toBe(sutEmpty);
+            expect(actual.map(x => x)).toBe(actual);
+            expect(Object.isFrozen(actual)).toBe(true);
+        });
+
+        it("freezes a present instance.", () => {
+            expect(Object.isFrozen(sutPresent)).toBe(true);
+            expect(() => { (sutPresent as any).payload = "bar"; }).toThrow(TypeError);
+            expect(sutPresent.get()).toBe(payload);
+        });
+
+        it("does not re-wrap the same payload.", () => {
+            expect(sutPresent.map(x => x)).toBe(sutPresent);
+            expect(sutPresent.filter(x => true)).toBe(sutPresent);
+        });
+
+        it("does not freeze an instance of a subclass.", () => {
+            class TaggedOptional<T> extends PresentOptional<T> {
+                readonly tag: string;
+
+                constructor(value: T) {
+                    super(value);
+                    this.tag = "tagged";
+                }
+            }
+
+            const actual = new TaggedOptional(payload);
+            expect(actual.tag).toBe("tagged");
+            expect(actual.get()).toBe(payload);
+            expect(Object.isFrozen(actual)).toBe(false);
+        });
+    });
+
+    describe("foreign Optionals", () => {
+        // another copy of this module, as if another version of the package were installed.
+        let Foreign: typeof Optional;
+        jest.isolateModules(() => {
+            Foreign = require("./optional").Optional;
+        });
+
+        it("are not instances of this copy.", () => {
+            expect(Foreign.of(payload) instanceof Optional).toBe(false);
+        });
+
+        describe("#isOptional", () => {
+            it("recognizes Optionals of this copy and another copy.", () => {
+                expect(Optional.isOptional(sutPresent)).toBe(true);
+                expect(Optional.isOptional(Optional.lazy(() => payload))).toBe(true);
+                expect(Optional.isOptional(Foreign.of(payload))).toBe(true);
+                expect(Optional.isOptional(Foreign.empty())).toBe(true);
+            });
+
+            it("rejects other values.", () => {
+                expect(Optional.isOptional({ kind: "present", value: payload })).toBe(false);
+                expect(Optional.isOptional(null)).toBe(false);
+                expect(Optional.isOptional(payload)).toBe(false);
+            });
+        });
+
+        describe("#adopt", () => {
+            it("returns an Optional of this copy as is.", () => {
+                expect(Optional.adopt(sutPresent)).toBe(sutPresent);
+            });
+
+            it("converts an Optional of another copy.", () => {
+                const present = Optional.adopt(Foreign.of(payload));
+                expect(present instanceof Optional).toBe(true);
+                expect(present.get()).toBe(payload);
+                expect(Optional.adopt(Foreign.empty()).isEmpty()).toBe(true);
+            });
+
+            it("converts an Option.", () => {
+                expect(Optional.adopt({ kind: "present", value: payload }).get()).toBe(payload);
+            });
+
+            it("throws TypeError for other values.", () => {
+                expect(() => Optional.adopt({} as Option<string>)).toThrow(TypeError);
+            });
+        });
+    });
+
+    describe("laws", () => {
+        it("holds for Optionals of numbers.", () => {
+            assertLaws({ values: integers() });
+        });
+
+        it("holds for Optionals of strings.", () => {
+            assertLaws({ values: strings(), seed: 7 });
+        });
+
+        it("holds for lazy Optionals.", () => {
+            assertLaws<number>({ values: integers(), of: value => Optional.lazy(() => value) });
+        });
+    });
 });
@@ -1,4 +1,16 @@
-import { Cases, Option } from "./types.js";
+import { AsyncOptional } from "./asyncOptional.js";
+import { hashOf, sameValueZero } from "./equality.js";
+import { NoSuchElementError, NullPayloadError } from "./errors.js";
+import { unwrapFields, wrapFields } from "./fields.js";
+import { reviveOptionals } from "./json.js";
+import { OptionalMatcher } from "./optionalMatcher.js";
+import { naturalOrder } from "./ordering.js";
+import { Result } from "./result.js";
+import { callSite, registerModule } from "./stack.js";
+import {
+    Cases, Comparator, ComparatorOptions, ErrorFilter, Falsy, JSONMode, JSONOptions, MapLike, Nullablize, Option,
+    Optionalize, OptionalSelector, Partition, Payloads, Property, UnknownResult,
+} from "./types.js";
 
 /**
  * `Optional` (like Java) implementation in TypeScript.
@@ -9,20 +21,28 @@ import { Cases, Option } from "./types.js";
  * This module is inspired by
  * [Optional class in Java 8+](https://docs.oracle.com/javase/10/docs/api/java/util/Optional.html).
  * 
- * The following methods are currently not supported:
+ * Instead of `stream`, `Optional` implements the iteration protocol,
+ * which yields the payload if present, otherwise yields nothing.
  * 
- * - `equals`
- * - `toString`
- * - `hashCode`
- * - `stream`
+ * Note that `Optional<T>` itself is a class, not a union type,
+ * so a `switch` statement on `kind` of an `Optional<T>` neither narrows it nor is checked for exhaustiveness.
+ * Call `narrow` first to obtain the discriminated union of `PresentOptional<T>` and `EmptyOptional<T>`.
  */
 export abstract class Optional<T> {
+    /**
+     * A discriminant which represents whether this is present or empty,
+     * in the same manner as `kind` of `Option`.
+     * It narrows the type only on the result of `narrow`, not on `Optional<T>` itself.
+     */
+    abstract readonly kind: "present" | "empty";
+
     /**
      * Returns whether this is present or not.
      * 
      * If a payload is present, be `true` , otherwise be `false`.
+     * This method is a type guard, so the payload can be accessed by `PresentOptional#value` if `true`.
      */
-    abstract isPresent(): boolean;
+    abstract isPresent(): this is PresentOptional<T>;
     
     /**
      * Returns whether this is empty or not.
@@ -30,17 +50,35 @@ export abstract class Optional<T> {
      * If this is empty, be `true`, otherwise  be `false`.
      * This method is negation of `Optional#isPresent`.
      */
-    isEmpty(): boolean {
+    isEmpty(): this is EmptyOptional<T> {
         return !this.isPresent();
     }
 
+    /**
+     * Returns this as a discriminated union of `PresentOptional` and `EmptyOptional`,
+     * so that `switch` statements on `kind` narrow the type and can be checked for exhaustiveness.
+     */
+    abstract narrow(): PresentOptional<T> | EmptyOptional<T>;
+
     /**
      * Force to retrieve the payload.
-     * If a payload is present, returns the payload, otherwise throws `TypeError`.
+     * If a payload is present, returns the payload, otherwise throws `NoSuchElementError`.
+     * 
+     * @param message a message of the error thrown when this is empty
+     * @throws {NoSuchElementError} if this is empty.
+     */
+    abstract get(message?: string): T;
+
+    /**
+     * Force to retrieve the payload, with the given `message` describing why it is expected.
+     * If a payload is present, returns the payload, otherwise throws `NoSuchElementError` with the `message`.
      * 
-     * @throws {TypeError} if this is empty.
+     * @param message a message of the error thrown when this is empty
+     * @throws {NoSuchElementError} if this is empty.
      */
-    abstract get(): T;
+    expect(message: string): T {
+        return this.get(message);
+    }
     
     /**
      * If a payload is present, executes the given `consumer`, otherwise does nothing.
@@ -63,9 +101,11 @@ export abstract class Optional<T> {
      * 
      * If a payload is present and the payload matches the given `predicate`, returns `this`,
      * otherwise returns an empty `Optional` even if this is present.
+     * If the `predicate` is a type guard, the payload type of the result is narrowed by it.
      * 
      * @param predicate a predicate to test the payload, if present
      */
+    abstract filter<S extends T>(predicate: (value: T) => value is S): Optional<S>;
     abstract filter(predicate: (value: T) => boolean): Optional<T>;
     
     /**
@@ -74,10 +114,62 @@ export abstract class Optional<T> {
      * If a payload is present, returns an `Optional` as if applying `Optional.ofNullable` to the result of
      * applying the given `mapper` to the payload,
      * otherwise returns an empty `Optional`.
+     * Use `mapStrict` instead if the `mapper` is not expected to return `null` or `undefined`.
+     * 
+     * A mapper which returns `void` is rejected at compile time.
+     * 
+     * @param mapper a mapper to apply the payload, if present
+     */
+    abstract map<U extends {} | null | undefined>(mapper: (value: T) => U): Optional<NonNullable<U>>;
+    abstract map<U>(mapper: (value: T) => UnknownResult<U>): Optional<unknown>;
+
+    /**
+     * This method is an alias of `Optional#map`,
+     * which makes it explicit that `null` or `undefined` returned by the `mapper` results in an empty `Optional`.
+     * 
+     * @param mapper a mapper to apply the payload, if present
+     */
+    mapNullable<U extends {} | null | undefined>(mapper: (value: T) => U): Optional<NonNullable<U>>;
+    mapNullable<U>(mapper: (value: T) => UnknownResult<U>): Optional<unknown>;
+    mapNullable<U>(mapper: (value: T) => U): Optional<NonNullable<U>> {
+        return this.map(mapper);
+    }
+
+    /**
+     * Maps a payload with a mapper which must not return `null` or `undefined`.
+     * 
+     * If a payload is present, returns an `Optional` of the result of applying the given `mapper` to the payload,
+     * otherwise returns an empty `Optional`.
+     * Unlike `Optional#map`, if the `mapper` returns `null` or `undefined`, throws `NullPayloadError`
+     * instead of silently returning an empty `Optional`.
+     * 
+     * @param mapper a mapper to apply the payload, if present
+     * @throws {NullPayloadError} when the `mapper` returns `null` or `undefined`.
+     */
+    mapStrict<U extends {} | null | undefined>(mapper: (value: T) => U): Optional<U>;
+    mapStrict<U>(mapper: (value: T) => UnknownResult<U>): Optional<unknown>;
+    mapStrict<U>(mapper: (value: T) => U): Optional<U> {
+        return this.flatMap(value => {
+            const result = mapper(value);
+            if (result === null || result === undefined) {
+                const name = mapper.name !== "" ? ` (${mapper.name})` : "";
+                throw new NullPayloadError(`The mapper${name} passed to mapStrict returned ${result}.`);
+            }
+            return new PresentOptional(result);
+        });
+    }
+
+    /**
+     * This method is an alias of `Optional#mapStrict`.
      * 
      * @param mapper a mapper to apply the payload, if present
+     * @throws {NullPayloadError} when the `mapper` returns `null` or `undefined`.
      */
-    abstract map<U>(mapper: (value: T) => U): Optional<NonNullable<U>>;
+    mapNonNull<U extends {} | null | undefined>(mapper: (value: T) => U): Optional<U>;
+    mapNonNull<U>(mapper: (value: T) => UnknownResult<U>): Optional<unknown>;
+    mapNonNull<U>(mapper: (value: T) => U): Optional<U> {
+        return this.mapStrict(mapper);
+    }
     
     /**
      * Maps a payload with a mapper which returns Optional as a result.
@@ -89,6 +181,78 @@ export abstract class Optional<T> {
      */
     abstract flatMap<U>(mapper: (value: T) => Optional<U>): Optional<U>;
 
+    /**
+     * Navigates nested properties of a payload.
+     * 
+     * If a payload is present, returns an `Optional` of the value at the given property path,
+     * where each key is a property name or an array index,
+     * otherwise returns an empty `Optional`.
+     * If `null` or `undefined` is found on the way, returns an empty `Optional`.
+     * Up to six keys are supported with type inference.
+     * 
+     * @param keys property names or array indexes
+     */
+    path<K1 extends keyof T>(k1: K1): Optional<Property<T, K1>>;
+    path<K1 extends keyof T, K2 extends keyof Property<T, K1>>(
+        k1: K1, k2: K2,
+    ): Optional<Property<Property<T, K1>, K2>>;
+    path<
+        K1 extends keyof T,
+        K2 extends keyof Property<T, K1>,
+        K3 extends keyof Property<Property<T, K1>, K2>,
+    >(
+        k1: K1, k2: K2, k3: K3,
+    ): Optional<Property<Property<Property<T, K1>, K2>, K3>>;
+    path<
+        K1 extends keyof T,
+        K2 extends keyof Property<T, K1>,
+        K3 extends keyof Property<Property<T, K1>, K2>,
+        K4 extends keyof Property<Property<Property<T, K1>, K2>, K3>,
+    >(
+        k1: K1, k2: K2, k3: K3, k4: K4,
+    ): Optional<Property<Property<Property<Property<T, K1>, K2>, K3>, K4>>;
+    path<
+        K1 extends keyof T,
+        K2 extends keyof Property<T, K1>,
+        K3 extends keyof Property<Property<T, K1>, K2>,
+        K4 extends keyof Property<Property<Property<T, K1>, K2>, K3>,
+        K5 extends keyof Property<Property<Property<Property<T, K1>, K2>, K3>, K4>,
+    >(
+        k1: K1, k2: K2, k3: K3, k4: K4, k5: K5,
+    ): Optional<Property<Property<Property<Property<Property<T, K1>, K2>, K3>, K4>, K5>>;
+    path<
+        K1 extends keyof T,
+        K2 extends keyof Property<T, K1>,
+        K3 extends keyof Property<Property<T, K1>, K2>,
+        K4 extends keyof Property<Property<Property<T, K1>, K2>, K3>,
+        K5 extends keyof Property<Property<Property<Property<T, K1>, K2>, K3>, K4>,
+        K6 extends keyof Property<Property<Property<Property<Property<T, K1>, K2>, K3>, K4>, K5>,
+    >(
+        k1: K1, k2: K2, k3: K3, k4: K4, k5: K5, k6: K6,
+    ): Optional<Property<Property<Property<Property<Property<Property<T, K1>, K2>, K3>, K4>, K5>, K6>>;
+    path(...keys: PropertyKey[]): Optional<unknown> {
+        let result: Optional<unknown> = this;
+        for (const key of keys)
+            result = result.flatMap(value =>
+                nullableOf((value as Record<PropertyKey, unknown>)[key as string], "path"));
+        return result;
+    }
+
+    /**
+     * Maps a payload with a mapper which may throw an error.
+     * 
+     * If a payload is present, returns an `Optional` as if applying `Optional.try` to the given `mapper`,
+     * that is, returns an empty `Optional` when the `mapper` throws an error which passes the given `filter`,
+     * otherwise returns an empty `Optional`.
+     * 
+     * @param mapper a mapper to apply the payload, if present
+     * @param filter a filter of errors to capture. If omitted, every error is captured.
+     * @throws any error thrown by the `mapper` which does not pass the `filter`.
+     */
+    mapTry<U>(mapper: (value: T) => U, filter?: ErrorFilter): Optional<NonNullable<U>> {
+        return this.flatMap(value => attempt(() => mapper(value)!, filter, "mapTry"));
+    }
+
     /**
      * If a payload is present, returns `this`,
      * otherwise returns an `Optional` provided by the given `supplier`.
@@ -97,6 +261,41 @@ export abstract class Optional<T> {
      */
     abstract or(supplier: () => Optional<T>): Optional<T>;
 
+    /**
+     * If both this and `other` are present, returns a present `Optional` of a pair of their payloads,
+     * otherwise returns an empty `Optional`.
+     * 
+     * @param other an another `Optional`
+     */
+    abstract zip<U>(other: Optional<U>): Optional<[T, U]>;
+
+    /**
+     * Combines payloads with a combiner.
+     * 
+     * If both this and `other` are present, returns an `Optional` as if applying `Optional.ofNullable` to
+     * the result of applying the given `combiner` to their payloads,
+     * otherwise returns an empty `Optional`.
+     * 
+     * @param other an another `Optional`
+     * @param combiner a combiner to apply the payloads, if both present
+     */
+    abstract zipWith<U, R>(other: Optional<U>, combiner: (left: T, right: U) => R): Optional<NonNullable<R>>;
+
+    /**
+     * If a payload is present, returns `other`, otherwise returns an empty `Optional`.
+     * 
+     * @param other an another `Optional`
+     */
+    abstract and<U>(other: Optional<U>): Optional<U>;
+
+    /**
+     * If exactly one of this and `other` is present, returns the present one,
+     * otherwise returns an empty `Optional`.
+     * 
+     * @param other an another `Optional`
+     */
+    abstract xor(other: Optional<T>): Optional<T>;
+
     /**
      * If a payload is present, returns the payload, otherwise returns `another`.
      * 
@@ -138,6 +337,24 @@ export abstract class Optional<T> {
      */
     abstract toOption(): Option<T>;
 
+    /**
+     * Converts this to a `Result`.
+     * If a payload is present, returns an ok `Result` of the payload,
+     * otherwise returns an error `Result` of the given `error`.
+     * 
+     * @param error an error, if empty
+     */
+    abstract okOr<E>(error: E): Result<T, E>;
+
+    /**
+     * Converts this to a `Result`.
+     * If a payload is present, returns an ok `Result` of the payload,
+     * otherwise returns an error `Result` of the error provided by the given `errorSupplier`.
+     * 
+     * @param errorSupplier a supplier of an error, if empty
+     */
+    abstract okOrElse<E>(errorSupplier: () => E): Result<T, E>;
+
     /**
      * Returns an appropriate result by emulating pattern matching with the given `cases`.
      * If a payload is present, returns the result of `present` case,
@@ -147,34 +364,177 @@ export abstract class Optional<T> {
      */
     abstract matches<U>(cases: Cases<T, U>): U;
 
+    /**
+     * Returns a fluent matcher of this `Optional`, which accepts more cases than `matches`.
+     * 
+     * The cases are tried in order and the first matching one wins.
+     * The matcher is closed by `empty`, which returns the result and compiles only if the cases are exhaustive.
+     * 
+     * @see OptionalMatcher
+     */
+    match(): OptionalMatcher<T, T, never> {
+        return OptionalMatcher.of(this.toOption());
+    }
+
+    /**
+     * Maps a payload with a mapper which may return a promise.
+     * 
+     * If a payload is present, returns an `AsyncOptional` which resolves to an `Optional`
+     * as if applying `Optional.ofNullable` to the awaited result of the given `mapper`,
+     * otherwise returns an `AsyncOptional` which resolves to an empty `Optional`.
+     * The `mapper` receives the payload as is, even if the payload itself is a promise.
+     * 
+     * @param mapper a mapper to apply the payload, if present
+     */
+    abstract mapAsync<U>(mapper: (value: T) => U | PromiseLike<U>): AsyncOptional<NonNullable<U>>;
+
+    /**
+     * Maps a payload with a mapper which returns an `Optional` or a promise of `Optional`.
+     * 
+     * If a payload is present, returns an `AsyncOptional` which resolves to the awaited result of the given `mapper`,
+     * otherwise returns an `AsyncOptional` which resolves to an empty `Optional`.
+     * 
+     * @param mapper a mapper to apply the payload, if present
+     */
+    abstract flatMapAsync<U>(mapper: (value: T) => Optional<U> | PromiseLike<Optional<U>>): AsyncOptional<U>;
+
+    /**
+     * Filters a payload with a `predicate` which may return a promise.
+     * 
+     * If a payload is present and the awaited result of the given `predicate` is `true`,
+     * returns an `AsyncOptional` which resolves to `this`,
+     * otherwise returns an `AsyncOptional` which resolves to an empty `Optional`.
+     * 
+     * @param predicate a predicate to test the payload, if present
+     */
+    abstract filterAsync(predicate: (value: T) => boolean | PromiseLike<boolean>): AsyncOptional<T>;
+
+    /**
+     * If a payload is present, returns an `AsyncOptional` which resolves to `this`,
+     * otherwise returns an `AsyncOptional` which resolves to the `Optional` provided by the given `supplier`.
+     * 
+     * @param supplier a supplier which may return a promise
+     */
+    abstract orAsync(supplier: () => Optional<T> | PromiseLike<Optional<T>>): AsyncOptional<T>;
+
+    /**
+     * If a payload is present, returns a promise of the payload,
+     * otherwise returns a promise of the awaited result provided by the given `supplier`.
+     * 
+     * @param supplier a supplier of another value which may return a promise
+     */
+    abstract orElseGetAsync(supplier: () => T | PromiseLike<T>): Promise<T>;
+
+    /**
+     * Converts this to a promise.
+     * If a payload is present, returns a promise resolved with the payload,
+     * otherwise returns a promise rejected with `NoSuchElementError`.
+     */
+    abstract toPromise(): Promise<T>;
+
     /**
      * This method is called by JSON.stringify automatically.
-     * When a payload is present, it will be serialized as the payload itself,
+     * In `"bare"` mode (default), when a payload is present, it will be serialized as the payload itself,
      * otherwise, it will be serialized as `null`.
+     * In `"tagged"` mode, it will be serialized as its `Option` form.
      * 
      * @param key property name
      * @see https://developer.mozilla.org/docs/Web/JavaScript/Reference/Global_Objects/JSON/stringify#toJSON()_behavior
+     * @see Optional.configureJSON
      */
     abstract toJSON(key: string): unknown;
 
+    /**
+     * Returns an iterator which yields the payload if present, otherwise yields nothing.
+     * This method allows an `Optional` to be spread or to be iterated by `for...of`.
+     */
+    abstract [Symbol.iterator](): Iterator<T, undefined, undefined>;
+
+    /**
+     * Returns an iterator which is used by `yield*` in a generator passed to `Optional.gen` or `Optional.genAsync`.
+     * 
+     * If a payload is present, the iterator returns the payload without yielding anything,
+     * so that `yield*` evaluates to the payload.
+     * Otherwise it yields this `Optional` itself, which makes the driver stop the block.
+     */
+    *bind(): Generator<Optional<T>, T, undefined> {
+        if (this.isPresent())
+            return this.value;
+
+        yield this;
+        // the driver never resumes the block after an empty `Optional` is yielded.
+        return this.get();
+    }
+
+    /**
+     * Converts this to an array.
+     * If a payload is present, returns an array which consists of the payload only,
+     * otherwise returns an empty array.
+     */
+    abstract toArray(): T[];
+
+    /**
+     * Returns whether this is equal to `other`.
+     * 
+     * Two `Optional`s are equal if both are empty,
+     * or if both are present and their payloads are equal in terms of the given `equality`.
+     * By default, payloads are compared by *SameValueZero* (the same algorithm as keys of `Map`).
+     * 
+     * @param other an another `Optional`
+     * @param equality a comparator of payloads
+     */
+    abstract equals(other: Optional<T>, equality?: (left: T, right: T) => boolean): boolean;
+
+    /**
+     * Returns a hash code of this.
+     * 
+     * If a payload is present, returns the hash code of the payload, otherwise returns `0`.
+     * By default, the hash code is consistent with `Optional#equals` without a custom comparator,
+     * and objects are hashed by their identities.
+     * When a custom comparator is used for `Optional#equals`, a consistent `hasher` should be given.
+     * 
+     * @param hasher a function which computes a hash code of the payload
+     */
+    abstract hashCode(hasher?: (value: T) => number): number;
+
+    /**
+     * Compares this with the given `other`.
+     * An empty `Optional` is less than a present one, and two empty ones are equal.
+     * Payloads of two present `Optional`s are compared with the given `comparator`.
+     * 
+     * @param other an `Optional` to compare with
+     * @param comparator a comparator of payloads, defaults to comparing by `<` and `>`
+     * @returns a negative number, zero or a positive number
+     *     when this is less than, equal to or greater than the `other` respectively.
+     */
+    compareTo(other: Optional<T>, comparator: Comparator<T> = naturalOrder): number {
+        return Optional.comparator(comparator)(this, other);
+    }
+
+    /**
+     * Returns a string representation of this.
+     * If a payload is present, returns `Optional[payload]`, otherwise returns `Optional.empty`.
+     */
+    abstract toString(): string;
+
     /**
      * Returns an Optional whose payload is the given non-null `value`.
      * 
      * @param value a value 
-     * @throws {TypeError} when the given `value` is `null` or `undefined`.
+     * @throws {NullPayloadError} when the given `value` is `null` or `undefined`.
      */
     static of<T>(value: T): Optional<T> {
         if (value !== null && value !== undefined)
             return new PresentOptional<T>(value);
         else
-            throw new TypeError("The passed value was null or undefined.");
+            throw new NullPayloadError();
     }
 
     /**
      * This method is an alias of `Optional.of`.
      * 
      * @param value a value
-     * @throws {TypeError} when the given `value` is `null` or `undefined`.
+     * @throws {NullPayloadError} when the given `value` is `null` or `undefined`.
      */
     static ofNonNull<T>(value: T): Optional<T> {
         return Optional.of(value);
@@ -191,116 +551,1019 @@ export abstract class Optional<T> {
         if (nullable !== null && nullable !== undefined)
             return new PresentOptional<T>(nullable);
         else
-            return new EmptyOptional<T>();
+            return emptyOf("Optional.ofNullable");
     }
 
     /**
-     * Returns an empty `Optional`.
+     * Returns an `Optional` whose payload is the given `value` if it is truthy,
+     * otherwise (when `false`, `0`, `-0`, `0n`, `NaN`, `""`, `null` or `undefined`) returns an empty `Optional`.
+     * 
+     * @param value a value
      */
-    static empty<T>(): Optional<T> {
-        return new EmptyOptional();
+    static ofTruthy<T>(value: T | Falsy): Optional<Exclude<T, Falsy>> {
+        return value ? new PresentOptional(value as Exclude<T, Falsy>) : emptyOf("Optional.ofTruthy");
     }
 
     /**
-     * Retrieve the given `option` as an Optional.
+     * Returns an `Optional` whose payload is the given `value` if it is a non-empty string, array, `Map` or `Set`,
+     * otherwise (when it is empty, `null` or `undefined`) returns an empty `Optional`.
      * 
-     * @param option an `Option` object to retrieve
-     * @throws {TypeError} when the given `option` does not have a valid `kind` attribute.
+     * @param value a string, an array, a `Map` or a `Set`
      */
-    static from<T>(option: Option<T>): Optional<T> {
-        switch (option.kind) {
-            case "present": return Optional.of(option.value);
-            case "empty": return Optional.empty();
-            default: throw new TypeError("The passed value was not an Option type.");
-        }
-    }
-}
-
-class PresentOptional<T> extends Optional<T> {
-    payload: T;
-
-    isPresent(): boolean {
-        return true;
-    }
-    
-    constructor(value: T)  {
-        super();
-        this.payload = value;
-    }
+    static ofNonEmpty<T extends string | ReadonlyArray<unknown> | ReadonlyMap<unknown, unknown> | ReadonlySet<unknown>>(
+        value: T | null | undefined,
+    ): Optional<T> {
+        if (value === null || value === undefined)
+            return emptyOf("Optional.ofNonEmpty");
 
-    get(): T {
-        return this.payload;
+        const size = typeof value === "string" || Array.isArray(value)
+            ? (value as string | ReadonlyArray<unknown>).length
+            : (value as ReadonlyMap<unknown, unknown> | ReadonlySet<unknown>).size;
+        return size > 0 ? new PresentOptional(value) : emptyOf("Optional.ofNonEmpty");
     }
 
-    ifPresent(consumer: (value: T) => void): void {
-        consumer(this.payload);
+    /**
+     * Returns an `Optional` whose payload is the given `value` if it is a finite number,
+     * otherwise (when `NaN`, `Infinity`, `-Infinity`, `null` or `undefined`) returns an empty `Optional`.
+     * 
+     * @param value a number
+     */
+    static ofFinite(value: number | null | undefined): Optional<number> {
+        return typeof value === "number" && Number.isFinite(value)
+            ? new PresentOptional(value)
+            : emptyOf("Optional.ofFinite");
     }
 
-    ifPresentOrElse(consumer: (value: T) => void, emptyAction: () => void): void {
-        consumer(this.payload);
+    /**
+     * Returns an `Optional` whose payload is the given `value` if it is neither `null` nor `undefined`
+     * and it matches the given `predicate`, otherwise returns an empty `Optional`.
+     * If the `predicate` is a type guard, the payload type of the result is narrowed by it.
+     * 
+     * @param value a value
+     * @param predicate a predicate to test the value
+     */
+    static ofValid<T, S extends T>(value: T | null | undefined, predicate: (value: T) => value is S): Optional<S>;
+    static ofValid<T>(value: T | null | undefined, predicate: (value: T) => boolean): Optional<T>;
+    static ofValid<T>(value: T | null | undefined, predicate: (value: T) => boolean): Optional<T> {
+        return value !== null && value !== undefined && predicate(value)
+            ? new PresentOptional(value)
+            : emptyOf("Optional.ofValid");
     }
 
-    filter(predicate: (value: T) => boolean): Optional<T> {
-        return (predicate(this.payload)) ? this : Optional.empty();
+    /**
+     * Returns an `Optional` whose content is evaluated lazily.
+     * 
+     * The given `supplier` is not called until the first terminal operation
+     * (such as `get`, `orElse`, `isPresent` or `matches`) is performed,
+     * and its result is memoized as if applying `Optional.ofNullable`.
+     * Intermediate operations such as `map`, `filter` and `flatMap` return lazy `Optional`s as well.
+     * 
+     * @param supplier a supplier of a nullable value
+     */
+    static lazy<T>(supplier: () => T | null | undefined): Optional<T> {
+        return new LazyOptional(() => nullableOf(supplier(), "Optional.lazy"));
     }
 
-    map<U>(mapper: (value: T) => U): Optional<NonNullable<U>> {
-        const result: U = mapper(this.payload);
-        return Optional.ofNullable(result!);
-    }
-    
-    flatMap<U>(mapper: (value: T) => Optional<U>): Optional<U> {
-        return mapper(this.payload);
+    /**
+     * Returns an `Optional` of the result of the given `supplier`, capturing errors thrown by it.
+     * 
+     * If the `supplier` returns a value, returns an `Optional` as if applying `Optional.ofNullable` to it.
+     * If the `supplier` throws an error which passes the given `filter`, returns an empty `Optional`.
+     * 
+     * @param supplier a supplier which may throw an error
+     * @param filter a filter of errors to capture. If omitted, every error is captured.
+     * @throws any error thrown by the `supplier` which does not pass the `filter`.
+     */
+    static try<T>(supplier: () => T | null | undefined, filter?: ErrorFilter): Optional<T> {
+        return attempt(supplier, filter, "Optional.try");
     }
 
-    or(supplier: () => Optional<T>): Optional<T> {
-        return this;
+    /**
+     * Lifts the given function which may throw an error into a function which returns an `Optional`.
+     * 
+     * The returned function passes its arguments to the given `f`
+     * and returns the result as if applying `Optional.try`.
+     * 
+     * @param f a function which may throw an error
+     * @param filter a filter of errors to capture. If omitted, every error is captured.
+     */
+    static fromThrowable<A extends any[], T>(
+        f: (...args: A) => T | null | undefined,
+        filter?: ErrorFilter,
+    ): (...args: A) => Optional<T> {
+        return (...args) => attempt(() => f(...args), filter, "Optional.fromThrowable");
     }
 
-    orElse(another: T): T {
-        return this.payload;
+    /**
+     * Returns a comparator of `Optional`s, which can be passed to `Array#sort`.
+     * 
+     * Payloads of present `Optional`s are compared with the given `comparator`,
+     * and empty `Optional`s are ordered before or after present ones as specified by `options.empty`.
+     * 
+     * @param comparator a comparator of payloads, defaults to comparing by `<` and `>`
+     * @param options options of ordering
+     */
+    static comparator<T>(
+        comparator: Comparator<T> = naturalOrder,
+        options: ComparatorOptions = {},
+    ): Comparator<Optional<T>> {
+        const emptyOrder = options.empty === "last" ? 1 : -1;
+        return (left, right) => {
+            if (left.isPresent())
+                return right.isPresent() ? comparator(left.get(), right.get()) : -emptyOrder;
+            else
+                return right.isPresent() ? emptyOrder : 0;
+        };
     }
 
-    orElseGet(another: () => T): T {
-        return this.payload;
+    /**
+     * Returns a comparator of objects which compares `Optional`s extracted by the given `key`,
+     * as `Optional.comparator` does.
+     * 
+     * @param key a function which extracts an `Optional` from an object
+     * @param comparator a comparator of payloads, defaults to comparing by `<` and `>`
+     * @param options options of ordering
+     */
+    static comparing<R, T>(
+        key: (record: R) => Optional<T>,
+        comparator: Comparator<T> = naturalOrder,
+        options: ComparatorOptions = {},
+    ): Comparator<R> {
+        const compare = Optional.comparator(comparator, options);
+        return (left, right) => compare(key(left), key(right));
     }
 
-    orElseThrow<U>(exception: () => U): T {
-        return this.payload;
+    /**
+     * Returns the greatest payload of the given `optionals`.
+     * 
+     * Returns an `Optional` of the greatest payload of the present ones according to the given `comparator`,
+     * or an empty `Optional` if none of them is present.
+     * If several payloads are the greatest, the first one is returned.
+     * 
+     * @param optionals `Optional`s
+     * @param comparator a comparator of payloads, defaults to comparing by `<` and `>`
+     */
+    static max<T>(optionals: Iterable<Optional<T>>, comparator: Comparator<T> = naturalOrder): Optional<T> {
+        let result: Optional<T> = emptyOf("Optional.max");
+        for (const optional of optionals) {
+            if (optional.isPresent() && (result.isEmpty() || comparator(optional.get(), result.get()) > 0))
+                result = optional;
+        }
+        return result;
     }
 
-    orNull(): T {
-        return this.payload;
+    /**
+     * Returns the least payload of the given `optionals`.
+     * 
+     * Returns an `Optional` of the least payload of the present ones according to the given `comparator`,
+     * or an empty `Optional` if none of them is present.
+     * If several payloads are the least, the first one is returned.
+     * 
+     * @param optionals `Optional`s
+     * @param comparator a comparator of payloads, defaults to comparing by `<` and `>`
+     */
+    static min<T>(optionals: Iterable<Optional<T>>, comparator: Comparator<T> = naturalOrder): Optional<T> {
+        return Optional.max(optionals, (left, right) => comparator(right, left));
     }
 
-    orUndefined(): T {
-        return this.payload;
+    /**
+     * Returns an empty `Optional`.
+     */
+    static empty<T>(): Optional<T> {
+        return emptyOf("Optional.empty");
     }
 
-    toOption(): Option<T> {
-        return { kind: "present", value: this.payload };
+    /**
+     * Returns whether the given `value` is an `Optional` or not.
+     * 
+     * Unlike `instanceof Optional`, it also recognizes `Optional`s created by another copy of this library,
+     * such as another version in `node_modules` or one loaded in another realm (an iframe or a `vm` context).
+     * 
+     * @param value a value to test
+     */
+    static isOptional(value: unknown): value is Optional<unknown> {
+        return value instanceof Optional
+            || (typeof value === "object" && value !== null && (value as { [brand]?: unknown })[brand] === true);
     }
 
-    matches<U>(cases: Cases<T, U>): U {
-        return cases.present(this.payload);
-    }
+    /**
+     * Converts the given `Optional` created by any copy of this library into an `Optional` of this copy.
+     * 
+     * If the given `optional` is already an `Optional` of this copy, returns it as is.
+     * Otherwise its content is copied, so a foreign lazy `Optional` is evaluated.
+     * An `Option` object is also accepted and converted as `Optional.from` does.
+     * 
+     * @param optional an `Optional` of any copy of this library, or an `Option`
+     * @throws {TypeError} when the given `optional` is neither an `Optional` nor an `Option`.
+     */
+    static adopt<T>(optional: Optional<T> | Option<T>): Optional<T> {
+        if (optional instanceof Optional)
+            return optional;
+        if (!Optional.isOptional(optional))
+            return Optional.from(optional);
 
-    toJSON(key: string): unknown {
-        return this.payload;
+        const foreign = optional as Optional<T>;
+        return foreign.isPresent() ? presentOf(foreign.get()) : emptyOf("Optional.adopt");
     }
-}
 
-class EmptyOptional<T> extends Optional<T> {
-    isPresent(): boolean {
-        return false;
+    /**
+     * Retrieve the given `option` as an Optional.
+     * 
+     * @param option an `Option` object to retrieve
+     * @throws {TypeError} when the given `option` does not have a valid `kind` attribute.
+     */
+    static from<T>(option: Option<T>): Optional<T> {
+        switch (option.kind) {
+            case "present": return Optional.of(option.value);
+            case "empty": return emptyOf("Optional.from");
+            default: throw new TypeError("The passed value was not an Option type.");
+        }
     }
 
-    constructor() {
-        super();
-    }
+    /**
+     * Collects payloads of the given `optionals`.
+     * 
+     * If all of the given `optionals` are present, returns a present `Optional` of an array of their payloads,
+     * otherwise returns an empty `Optional`.
+     * When a tuple is given, the types of its elements are preserved.
+     * 
+     * @param optionals an array (or a tuple) of `Optional`s
+     */
+    static all<T extends ReadonlyArray<Optional<unknown>> | []>(optionals: T): Optional<Payloads<T>> {
+        const payloads: Array<unknown> = [];
+        for (const optional of optionals) {
+            if (optional.isEmpty())
+                return emptyOf("Optional.all");
+            payloads.push(optional.get());
+        }
+        return Optional.of<unknown>(payloads) as Optional<Payloads<T>>;
+    }
+
+    /**
+     * This method is an alias of `Optional.all`.
+     * 
+     * @param optionals an array (or a tuple) of `Optional`s
+     */
+    static sequence<T extends ReadonlyArray<Optional<unknown>> | []>(optionals: T): Optional<Payloads<T>> {
+        return Optional.all(optionals);
+    }
+
+    /**
+     * Combines payloads of the given `Optional`s with a combiner,
+     * which is given as the last argument.
+     * 
+     * If all of the given `Optional`s are present, returns an `Optional` as if applying `Optional.ofNullable` to
+     * the result of applying the combiner to their payloads,
+     * otherwise returns an empty `Optional`.
+     * Up to six `Optional`s are supported; use `Optional.all` to combine more.
+     * 
+     * @param args `Optional`s followed by a combiner
+     */
+    static combine<A, R>(a: Optional<A>, combiner: (a: A) => R): Optional<NonNullable<R>>;
+    static combine<A, B, R>(
+        a: Optional<A>, b: Optional<B>,
+        combiner: (a: A, b: B) => R,
+    ): Optional<NonNullable<R>>;
+    static combine<A, B, C, R>(
+        a: Optional<A>, b: Optional<B>, c: Optional<C>,
+        combiner: (a: A, b: B, c: C) => R,
+    ): Optional<NonNullable<R>>;
+    static combine<A, B, C, D, R>(
+        a: Optional<A>, b: Optional<B>, c: Optional<C>, d: Optional<D>,
+        combiner: (a: A, b: B, c: C, d: D) => R,
+    ): Optional<NonNullable<R>>;
+    static combine<A, B, C, D, E, R>(
+        a: Optional<A>, b: Optional<B>, c: Optional<C>, d: Optional<D>, e: Optional<E>,
+        combiner: (a: A, b: B, c: C, d: D, e: E) => R,
+    ): Optional<NonNullable<R>>;
+    static combine<A, B, C, D, E, F, R>(
+        a: Optional<A>, b: Optional<B>, c: Optional<C>, d: Optional<D>, e: Optional<E>, f: Optional<F>,
+        combiner: (a: A, b: B, c: C, d: D, e: E, f: F) => R,
+    ): Optional<NonNullable<R>>;
+    static combine<R>(
+        ...args: Array<Optional<unknown> | ((...payloads: Array<unknown>) => R)>
+    ): Optional<NonNullable<R>> {
+        const combiner = args[args.length - 1];
+        if (typeof combiner !== "function")
+            throw new TypeError("The last argument was not a function.");
+
+        const optionals = args.slice(0, -1) as Array<Optional<unknown>>;
+        return Optional.all(optionals).flatMap(payloads => nullableOf(combiner(...payloads)!, "Optional.combine"));
+    }
+
+    /**
+     * Maps each of the given `items` into an `Optional` and collects their payloads.
+     * 
+     * If the given `mapper` returns present `Optional`s for all of the `items`,
+     * returns a present `Optional` of an array of their payloads,
+     * otherwise returns an empty `Optional`.
+     * The `mapper` is not called for the remaining items once it returns an empty `Optional`.
+     * 
+     * @param items items to map
+     * @param mapper a mapper which returns an `Optional`
+     */
+    static traverse<T, U>(items: Iterable<T>, mapper: (item: T, index: number) => Optional<U>): Optional<U[]> {
+        const payloads: U[] = [];
+        let index = 0;
+        for (const item of items) {
+            const optional = mapper(item, index++);
+            if (optional.isEmpty())
+                return emptyOf("Optional.traverse");
+            payloads.push(optional.get());
+        }
+        return Optional.of(payloads);
+    }
+
+    /**
+     * Returns the first present `Optional` provided by the given `suppliers`.
+     * 
+     * The `suppliers` are called lazily in order, until one of them returns a present `Optional`.
+     * If none of them returns a present `Optional`, returns an empty `Optional`.
+     * 
+     * @param suppliers suppliers of `Optional`s
+     */
+    static firstPresent<T>(...suppliers: Array<() => Optional<T>>): Optional<T> {
+        for (const supplier of suppliers) {
+            const optional = supplier();
+            if (optional.isPresent())
+                return optional;
+        }
+        return emptyOf("Optional.firstPresent");
+    }
+
+    /**
+     * Returns an array of payloads of present `Optional`s among the given `optionals`, discarding empty ones.
+     * 
+     * @param optionals `Optional`s
+     */
+    static catOptionals<T extends ReadonlyArray<Optional<unknown>> | []>(optionals: T): Array<Payloads<T>[number]>;
+    static catOptionals<T>(optionals: Iterable<Optional<T>>): T[];
+    static catOptionals<T>(optionals: Iterable<Optional<T>>): T[] {
+        const payloads: T[] = [];
+        for (const optional of optionals)
+            optional.ifPresent(value => payloads.push(value));
+        return payloads;
+    }
+
+    /**
+     * Partitions the given `optionals` into payloads of present ones and the number of empty ones.
+     * 
+     * @param optionals `Optional`s
+     */
+    static partition<T extends ReadonlyArray<Optional<unknown>> | []>(optionals: T): Partition<Payloads<T>[number]>;
+    static partition<T>(optionals: Iterable<Optional<T>>): Partition<T>;
+    static partition<T>(optionals: Iterable<Optional<T>>): Partition<T> {
+        const result: Partition<T> = { present: [], empty: 0 };
+        for (const optional of optionals) {
+            optional.ifPresentOrElse(value => result.present.push(value), () => result.empty++);
+        }
+        return result;
+    }
+
+    /**
+     * Configures the mode of JSON serialization used by `Optional#toJSON`, which is `"bare"` by default.
+     * 
+     * @param mode a mode of JSON serialization
+     */
+    static configureJSON(mode: JSONMode): void {
+        jsonMode = mode;
+    }
+
+    /**
+     * Enables or disables debug mode, which is disabled by default.
+     * 
+     * In debug mode, an empty `Optional` records the operation and the call site which produced it,
+     * and the error thrown by retrieving its payload describes them.
+     * Since it captures a stack trace on each empty `Optional`, it should not be enabled in production.
+     * 
+     * @param enabled whether debug mode is enabled or not
+     */
+    static configureDebug(enabled: boolean): void {
+        debugMode = enabled;
+    }
+
+    /**
+     * Returns a reviver for `JSON.parse` which restores `Optional`s at the locations selected by `selector`.
+     * 
+     * Values at the selected locations are restored by `Optional.from` in `"tagged"` mode,
+     * or by `Optional.ofNullable` in `"bare"` mode.
+     * Paths of descendants of a restored `Optional` are relative to its payload in both modes.
+     * 
+     * Since a reviver cannot tell the root from a nested property named `""` which is the only property
+     * of its object, the `selector` may also be called for such a property as if it were the root,
+     * although the result is reverted. `Optional.deserialize` does not have this problem.
+     * 
+     * @param selector path patterns or a predicate which selects locations to restore
+     * @param mode a mode of JSON serialization, defaults to the configured mode
+     * @throws {TypeError} when a selected location does not hold an `Option` in `"tagged"` mode.
+     */
+    static reviver(
+        selector: OptionalSelector,
+        mode: JSONMode = jsonMode,
+    ): (this: unknown, key: string, value: unknown) => unknown {
+        // JSON.parse calls a reviver with the root value at last, whose holder is `{ "": root }`.
+        // A nested property named "" in an object of a single property looks the same,
+        // so its revived copy is reverted as soon as another call shows that it was not the last one.
+        let candidate: { holder: Record<string, unknown>, original: unknown } | undefined;
+        return function revive(this: unknown, key: string, value: unknown): unknown {
+            if (candidate !== undefined) {
+                candidate.holder[""] = candidate.original;
+                candidate = undefined;
+            }
+
+            const holder = this as Record<string, unknown>;
+            const isRoot = key === "" && typeof holder === "object" && holder !== null
+                && Object.keys(holder).length === 1;
+            if (!isRoot)
+                return value;
+
+            candidate = { holder, original: value };
+            return reviveOptionals(value, selector, mode);
+        };
+    }
+
+    /**
+     * Serializes the given `value`, which may contain `Optional`s, into a JSON string.
+     * 
+     * @param value a value to serialize
+     * @param options options of serialization
+     */
+    static serialize(value: unknown, options: JSONOptions = {}): string {
+        const previous = jsonMode;
+        jsonMode = options.mode ?? previous;
+        try {
+            return JSON.stringify(value, undefined, options.space);
+        } finally {
+            jsonMode = previous;
+        }
+    }
+
+    /**
+     * Deserializes the given JSON `text`, restoring `Optional`s at the locations selected by `selector`.
+     * 
+     * @param text a JSON string
+     * @param selector path patterns or a predicate which selects locations to restore
+     * @param options options of deserialization
+     * @throws {TypeError} when a selected location does not hold an `Option` in `"tagged"` mode.
+     */
+    static deserialize<T = unknown>(text: string, selector: OptionalSelector, options: JSONOptions = {}): T {
+        return reviveOptionals(JSON.parse(text), selector, options.mode ?? jsonMode) as T;
+    }
+
+    /**
+     * Returns a copy of the given `target` whose fields are wrapped with `Optional`s,
+     * which converts an object with nullable fields (such as a DTO) into one with `Optional` fields.
+     * 
+     * Each field named by the given `keys` (all the own enumerable fields by default) is replaced with
+     * an `Optional` of its value as if applying `Optional.ofNullable`,
+     * unless it is already an `Optional` or it holds a function (such as a method).
+     * Objects and arrays in the payloads are converted recursively, where all the fields are wrapped,
+     * and the copies of class instances keep their prototypes (but not their private state).
+     * Built-in objects such as `Date`s, `Map`s, `Set`s and functions are left as they are.
+     * 
+     * @param target an object (or an array) to convert
+     * @param keys keys of the fields to wrap, defaults to all the fields
+     * @see Optional.unwrapFields
+     */
+    static wrapFields<T extends object, K extends keyof T = keyof T>(
+        target: T,
+        keys?: ReadonlyArray<K>,
+    ): Optionalize<T, K> {
+        return wrapFields(target, keys ?? Object.keys(target)) as Optionalize<T, K>;
+    }
+
+    /**
+     * Returns a copy of the given `target` whose `Optional`s are unwrapped,
+     * which converts an object with `Optional` fields into one with nullable fields (such as a DTO).
+     * 
+     * Each `Optional` in the fields, and in objects and arrays nested in them, is replaced with its payload,
+     * or `null` (or `undefined` if `options.as` is `"undefined"`) if it is empty.
+     * Objects are converted as `Optional.wrapFields` does.
+     * 
+     * @param target an object (or an array) to convert
+     * @param options `as` specifies which of `"null"` (default) or `"undefined"` replaces empty `Optional`s
+     * @see Optional.wrapFields
+     */
+    static unwrapFields<T extends object>(target: T, options: { as: "undefined" }): Nullablize<T, undefined>;
+    static unwrapFields<T extends object>(target: T, options?: { as?: "null" }): Nullablize<T>;
+    static unwrapFields<T extends object>(
+        target: T,
+        options: { as?: "null" | "undefined" } = {},
+    ): Nullablize<T, null | undefined> {
+        const empty = options.as === "undefined" ? undefined : null;
+        return unwrapFields(target, empty) as Nullablize<T, null | undefined>;
+    }
+
+    /**
+     * Returns an `Optional` of the first element of the given `iterable`
+     * as if applying `Optional.ofNullable` to it.
+     * If the given `iterable` has no elements, returns an empty `Optional`.
+     * 
+     * @param iterable an iterable
+     */
+    static fromIterable<T>(iterable: Iterable<T | null | undefined>): Optional<T> {
+        for (const element of iterable)
+            return nullableOf(element, "Optional.fromIterable");
+        return emptyOf("Optional.fromIterable");
+    }
+
+    /**
+     * Returns an `Optional` of the only element of the given `iterable`
+     * as if applying `Optional.ofNullable` to it.
+     * If the given `iterable` has no elements or more than one element, returns an empty `Optional`.
+     * 
+     * @param iterable an iterable
+     */
+    static single<T>(iterable: Iterable<T | null | undefined>): Optional<T> {
+        const iterator = iterable[Symbol.iterator]();
+        const first = iterator.next();
+        if (first.done)
+            return emptyOf("Optional.single");
+
+        const second = iterator.next();
+        if (!second.done) {
+            if (iterator.return !== undefined)
+                iterator.return();
+            return emptyOf("Optional.single");
+        }
+        return nullableOf(first.value, "Optional.single");
+    }
+
+    /**
+     * Returns an `Optional` of the first element of the given `iterable` which matches the given `predicate`.
+     * If no elements match, returns an empty `Optional`.
+     * 
+     * @param iterable an iterable
+     * @param predicate a predicate to test each element
+     */
+    static findFirst<T>(iterable: Iterable<T>, predicate: (value: T) => boolean): Optional<T> {
+        for (const element of iterable) {
+            if (predicate(element))
+                return nullableOf(element, "Optional.findFirst");
+        }
+        return emptyOf("Optional.findFirst");
+    }
 
-    get(): T {
-        throw new TypeError("The optional is not present.");
+    /**
+     * Returns an `Optional` of the first element of the given `iterable` which matches the given `predicate`.
+     * If no elements match, returns an empty `Optional`.
+     * 
+     * Unlike `Optional.findFirst`, a matched element is present even if it is `null` or `undefined`,
+     * so that a matched nullish element can be distinguished from no match.
+     * 
+     * @param iterable an iterable
+     * @param predicate a predicate to test each element
+     */
+    static find<T, S extends T>(iterable: Iterable<T>, predicate: (value: T) => value is S): Optional<S>;
+    static find<T>(iterable: Iterable<T>, predicate: (value: T) => boolean): Optional<T>;
+    static find<T>(iterable: Iterable<T>, predicate: (value: T) => boolean): Optional<T> {
+        for (const element of iterable) {
+            if (predicate(element))
+                return presentOf(element);
+        }
+        return emptyOf("Optional.find");
+    }
+
+    /**
+     * Looks up the value of the given `key` in the given `map`.
+     * 
+     * If the `map` has the `key`, returns an `Optional` of its value, otherwise returns an empty `Optional`.
+     * Since absence is determined by `has`, the value is present even if it is `null` or `undefined`.
+     * 
+     * @param map a map-like object such as `Map` or `WeakMap`
+     * @param key a key to look up
+     */
+    static get<K, V>(map: MapLike<K, V>, key: K): Optional<V> {
+        return map.has(key) ? presentOf(map.get(key) as V) : emptyOf("Optional.get");
+    }
+
+    /**
+     * Returns an `Optional` of the element at the given `index` of the given `array`.
+     * 
+     * A negative `index` counts back from the end of the `array`, as `Array#at` does.
+     * If the `index` is out of range, is not an integer or points to a hole of a sparse array,
+     * returns an empty `Optional`.
+     * Otherwise the element is present even if it is `null` or `undefined`.
+     * 
+     * @param array an array or an array-like object
+     * @param index an index of the element
+     */
+    static at<T>(array: ArrayLike<T>, index: number): Optional<T> {
+        const position = index < 0 ? array.length + index : index;
+        if (Number.isInteger(position) && position >= 0 && hasOwn(array, position))
+            return presentOf(array[position]);
+        else
+            return emptyOf("Optional.at");
+    }
+
+    /**
+     * Returns an `Optional` of the property of the given `key` of the given `record`.
+     * 
+     * If the `record` has the property as its own property, returns an `Optional` of its value,
+     * otherwise (including when it is inherited from a prototype) returns an empty `Optional`.
+     * The value is present even if it is `null` or `undefined`.
+     * 
+     * @param record an object
+     * @param key a property name
+     */
+    static prop<T extends object, K extends keyof T>(record: T, key: K): Optional<T[K]> {
+        return hasOwn(record, key) ? presentOf(record[key]) : emptyOf("Optional.prop");
+    }
+
+    /**
+     * Returns an `AsyncOptional` which resolves to an `Optional`
+     * as if applying `Optional.ofNullable` to the resolved value of the given `promise`.
+     * 
+     * @param promise a promise of a nullable value
+     */
+    static fromPromise<T>(promise: PromiseLike<T | null | undefined>): AsyncOptional<T> {
+        return AsyncOptional.from(Promise.resolve(promise).then(value => nullableOf(value, "Optional.fromPromise")));
+    }
+
+    /**
+     * Runs a block of dependent operations written in *do-notation* with a generator.
+     * 
+     * In the given generator, `yield* optional.bind()` evaluates to the payload of `optional` if present,
+     * otherwise the whole block is short-circuited and an empty `Optional` is returned.
+     * If the block completes, returns an `Optional` as if applying `Optional.ofNullable` to its return value.
+     * 
+     * @param block a generator function written in do-notation
+     */
+    static gen<R>(block: () => Generator<unknown, R, undefined>): Optional<NonNullable<R>> {
+        const generator = block();
+        for (;;) {
+            const result = generator.next();
+            if (result.done)
+                return nullableOf(result.value!, "Optional.gen");
+            if (Optional.isOptional(result.value) && result.value.isEmpty()) {
+                generator.return(undefined!);
+                return emptyOf("Optional.gen");
+            }
+        }
+    }
+
+    /**
+     * Runs a block of dependent asynchronous operations written in *do-notation* with an async generator.
+     * 
+     * In the given async generator, `yield* optional.bind()` (where `optional` is an `Optional`
+     * or an `AsyncOptional`) evaluates to the payload of `optional` if present,
+     * otherwise the whole block is short-circuited and an empty `Optional` is resolved.
+     * 
+     * @param block an async generator function written in do-notation
+     * @see Optional.gen
+     */
+    static genAsync<R>(block: () => AsyncGenerator<unknown, R, undefined>): AsyncOptional<NonNullable<R>> {
+        const run = async (): Promise<Optional<NonNullable<R>>> => {
+            const generator = block();
+            for (;;) {
+                const result = await generator.next();
+                if (result.done)
+                    return nullableOf(result.value!, "Optional.genAsync");
+                if (Optional.isOptional(result.value) && result.value.isEmpty()) {
+                    await generator.return(undefined!);
+                    return emptyOf("Optional.genAsync");
+                }
+            }
+        };
+        return AsyncOptional.from(run());
+    }
+}
+
+/**
+ * A brand of `Optional` objects, which is shared among all copies of this library through the global symbol registry.
+ */
+const brand = Symbol.for("typescript-optional.Optional");
+
+Object.defineProperty(Optional.prototype, brand, { value: true });
+
+/**
+ * The current mode of JSON serialization.
+ */
+let jsonMode: JSONMode = "bare";
+
+/**
+ * Whether empty `Optional`s record where they were produced or not.
+ */
+let debugMode = false;
+
+/**
+ * A key of the custom inspection function used by `util.inspect` of Node.js (and therefore by `console.log`).
+ */
+const inspect = Symbol.for("nodejs.util.inspect.custom");
+
+registerModule();
+
+/**
+ * Returns an empty `Optional` produced by the given `operation`,
+ * which records the operation and its call site in debug mode.
+ */
+function emptyOf<T>(operation: string): EmptyOptional<T> {
+    if (!debugMode)
+        return sharedEmpty;
+
+    const site = callSite();
+    return new EmptyOptional(site !== undefined ? `${operation} ${site}` : operation);
+}
+
+/**
+ * Returns an `Optional` as if applying `Optional.ofNullable` to the given `value`,
+ * except that an empty `Optional` records the given `operation` in debug mode.
+ */
+function nullableOf<T>(value: T | null | undefined, operation: string): Optional<T> {
+    return value !== null && value !== undefined ? new PresentOptional(value) : emptyOf(operation);
+}
+
+/**
+ * Returns a present `Optional` of the given `value`, even if it is `null` or `undefined`.
+ */
+function presentOf<T>(value: T): PresentOptional<T> {
+    return value !== null && value !== undefined ? new PresentOptional(value) : new NullishPresentOptional(value);
+}
+
+/**
+ * Converts the given `value` into a string as `String` does, falling back to `Object.prototype.toString`
+ * when it cannot be converted, as with an object without a prototype.
+ */
+function stringOf(value: unknown): string {
+    try {
+        return String(value);
+    } catch {
+        return Object.prototype.toString.call(value);
+    }
+}
+
+/**
+ * Returns an `Optional` of the result of the given `supplier` as `Optional.try` does,
+ * where an empty `Optional` records the given `operation` in debug mode.
+ */
+function attempt<T>(
+    supplier: () => T | null | undefined,
+    filter: ErrorFilter | undefined,
+    operation: string,
+): Optional<T> {
+    let value: T | null | undefined;
+    try {
+        value = supplier();
+    } catch (error) {
+        if (filter === undefined || isCaptured(error, filter))
+            return emptyOf(operation);
+        throw error;
+    }
+    return nullableOf(value, operation);
+}
+
+/**
+ * Returns whether the given `target` has the given `key` as its own property.
+ */
+function hasOwn(target: object, key: PropertyKey): boolean {
+    return Object.prototype.hasOwnProperty.call(target, key);
+}
+
+/**
+ * Returns whether the given `error` passes the given `filter`.
+ */
+function isCaptured(error: unknown, filter: ErrorFilter): boolean {
+    if (typeof filter === "function")
+        return filter(error);
+    else
+        return filter.some(type => error instanceof type);
+}
+
+/**
+ * A present `Optional`, which always contains a payload.
+ */
+export class PresentOptional<T> extends Optional<T> {
+    private readonly payload: T;
+
+    get kind(): "present" {
+        return "present";
+    }
+
+    /**
+     * The payload.
+     */
+    get value(): T {
+        return this.payload;
+    }
+
+    isPresent(): this is PresentOptional<T> {
+        return true;
+    }
+
+    narrow(): PresentOptional<T> {
+        return this;
+    }
+    
+    /**
+     * @param value a payload
+     * @throws {NullPayloadError} when the given `value` is `null` or `undefined`.
+     */
+    constructor(value: T)  {
+        super();
+        if ((value === null || value === undefined) && new.target !== NullishPresentOptional)
+            throw new NullPayloadError();
+
+        this.payload = value;
+        // a subclass is left extensible, so that its constructor can initialize its own fields.
+        if (new.target === PresentOptional)
+            Object.freeze(this);
+    }
+
+    get(message?: string): T {
+        return this.payload;
+    }
+
+    ifPresent(consumer: (value: T) => void): void {
+        consumer(this.payload);
+    }
+
+    ifPresentOrElse(consumer: (value: T) => void, emptyAction: () => void): void {
+        consumer(this.payload);
+    }
+
+    filter<S extends T>(predicate: (value: T) => value is S): Optional<S>;
+    filter(predicate: (value: T) => boolean): Optional<T>;
+    filter(predicate: (value: T) => boolean): Optional<T> {
+        return (predicate(this.payload)) ? this : emptyOf("filter");
+    }
+
+    map<U extends {} | null | undefined>(mapper: (value: T) => U): Optional<NonNullable<U>>;
+    map<U>(mapper: (value: T) => UnknownResult<U>): Optional<unknown>;
+    map<U>(mapper: (value: T) => U): Optional<NonNullable<U>> {
+        const result: U = mapper(this.payload);
+        if (result === null || result === undefined)
+            return emptyOf("map");
+
+        // avoids re-wrapping the same payload, which is safe since a present `Optional` is immutable.
+        return (result as unknown) === this.payload
+            ? this as unknown as Optional<NonNullable<U>>
+            : new PresentOptional(result!);
+    }
+    
+    flatMap<U>(mapper: (value: T) => Optional<U>): Optional<U> {
+        return mapper(this.payload);
+    }
+
+    or(supplier: () => Optional<T>): Optional<T> {
+        return this;
+    }
+
+    zip<U>(other: Optional<U>): Optional<[T, U]> {
+        return other.map<[T, U]>(value => [this.payload, value]);
+    }
+
+    zipWith<U, R>(other: Optional<U>, combiner: (left: T, right: U) => R): Optional<NonNullable<R>> {
+        return other.flatMap(value => nullableOf(combiner(this.payload, value)!, "zipWith"));
+    }
+
+    and<U>(other: Optional<U>): Optional<U> {
+        return other;
+    }
+
+    xor(other: Optional<T>): Optional<T> {
+        return other.isPresent() ? emptyOf("xor") : this;
+    }
+
+    orElse(another: T): T {
+        return this.payload;
+    }
+
+    orElseGet(another: () => T): T {
+        return this.payload;
+    }
+
+    orElseThrow<U>(exception: () => U): T {
+        return this.payload;
+    }
+
+    orNull(): T {
+        return this.payload;
+    }
+
+    orUndefined(): T {
+        return this.payload;
+    }
+
+    toOption(): Option<T> {
+        return { kind: "present", value: this.payload };
+    }
+
+    okOr<E>(error: E): Result<T, E> {
+        return Result.ok(this.payload);
+    }
+
+    okOrElse<E>(errorSupplier: () => E): Result<T, E> {
+        return Result.ok(this.payload);
+    }
+
+    matches<U>(cases: Cases<T, U>): U {
+        return cases.present(this.payload);
+    }
+
+    mapAsync<U>(mapper: (value: T) => U | PromiseLike<U>): AsyncOptional<NonNullable<U>> {
+        const result = Promise.resolve().then(() => mapper(this.payload));
+        return AsyncOptional.from(result.then(value => nullableOf(value!, "mapAsync")));
+    }
+
+    flatMapAsync<U>(mapper: (value: T) => Optional<U> | PromiseLike<Optional<U>>): AsyncOptional<U> {
+        return AsyncOptional.from(Promise.resolve().then(() => mapper(this.payload)));
+    }
+
+    filterAsync(predicate: (value: T) => boolean | PromiseLike<boolean>): AsyncOptional<T> {
+        const result = Promise.resolve().then(() => predicate(this.payload));
+        return AsyncOptional.from(result.then(matched => matched ? this : emptyOf<T>("filterAsync")));
+    }
+
+    orAsync(supplier: () => Optional<T> | PromiseLike<Optional<T>>): AsyncOptional<T> {
+        return AsyncOptional.of<T>(this);
+    }
+
+    orElseGetAsync(supplier: () => T | PromiseLike<T>): Promise<T> {
+        return Promise.resolve().then(() => this.payload);
+    }
+
+    toPromise(): Promise<T> {
+        return Promise.resolve().then(() => this.payload);
+    }
+
+    toJSON(key: string): unknown {
+        return jsonMode === "tagged" ? this.toOption() : this.payload;
+    }
+
+    *[Symbol.iterator](): Iterator<T, undefined, undefined> {
+        yield this.payload;
+        return undefined;
+    }
+
+    toArray(): T[] {
+        return [this.payload];
+    }
+
+    equals(other: Optional<T>, equality: (left: T, right: T) => boolean = sameValueZero): boolean {
+        return other.isPresent() && equality(this.payload, other.get());
+    }
+
+    hashCode(hasher: (value: T) => number = hashOf): number {
+        return hasher(this.payload);
+    }
+
+    toString(): string {
+        return `Optional[${stringOf(this.payload)}]`;
+    }
+
+    [inspect](depth: number, options: unknown, inspectValue?: (value: unknown, options: unknown) => string): string {
+        const payload = inspectValue !== undefined ? inspectValue(this.payload, options) : stringOf(this.payload);
+        return `Optional[${payload}]`;
+    }
+}
+
+/**
+ * A present `Optional` whose payload is `null` or `undefined`,
+ * which is produced only by lookups distinguishing a nullish value from absence, such as `Optional.get`.
+ */
+class NullishPresentOptional<T> extends PresentOptional<T> {
+    constructor(value: T) {
+        super(value);
+        Object.freeze(this);
+    }
+}
+
+/**
+ * An empty `Optional`, which never contains a payload.
+ */
+export class EmptyOptional<T> extends Optional<T> {
+    get kind(): "empty" {
+        return "empty";
+    }
+
+    isPresent(): this is PresentOptional<T> {
+        return false;
+    }
+
+    narrow(): EmptyOptional<T> {
+        return this;
+    }
+
+    private readonly origin: string | undefined;
+
+    constructor(origin?: string) {
+        super();
+        this.origin = origin;
+        // a subclass is left extensible, so that its constructor can initialize its own fields.
+        if (new.target === EmptyOptional)
+            Object.freeze(this);
+    }
+
+    /**
+     * Returns `this` as an empty `Optional` of another payload type,
+     * which is safe since an empty `Optional` never contains a payload.
+     */
+    private cast<U>(): EmptyOptional<U> {
+        return this as EmptyOptional<any>;
+    }
+
+    get(message?: string): T {
+        throw new NoSuchElementError(message, this.origin);
     }
 
     ifPresent(consumer: (value: T) => void): void {
@@ -310,22 +1573,42 @@ class EmptyOptional<T> extends Optional<T> {
         emptyAction();
     }
 
+    filter<S extends T>(predicate: (value: T) => value is S): Optional<S>;
+    filter(predicate: (value: T) => boolean): Optional<T>;
     filter(predicate: (value: T) => boolean): Optional<T> {
         return this;
     }
 
+    map<U extends {} | null | undefined>(mapper: (value: T) => U): Optional<NonNullable<U>>;
+    map<U>(mapper: (value: T) => UnknownResult<U>): Optional<unknown>;
     map<U>(mapper: (value: T) => U): Optional<NonNullable<U>> {
-        return Optional.empty();
+        return this.cast();
     }
 
     flatMap<U>(mapper: (value: T) => Optional<U>): Optional<U> {
-        return Optional.empty();
+        return this.cast();
     }
 
     or(supplier: () => Optional<T>): Optional<T> {
         return supplier();
     }
 
+    zip<U>(other: Optional<U>): Optional<[T, U]> {
+        return this.cast();
+    }
+
+    zipWith<U, R>(other: Optional<U>, combiner: (left: T, right: U) => R): Optional<NonNullable<R>> {
+        return this.cast();
+    }
+
+    and<U>(other: Optional<U>): Optional<U> {
+        return this.cast();
+    }
+
+    xor(other: Optional<T>): Optional<T> {
+        return other;
+    }
+
     orElse(another: T): T {
         return another;
     }
@@ -350,11 +1633,252 @@ class EmptyOptional<T> extends Optional<T> {
         return { kind: "empty" };
     }
 
+    okOr<E>(error: E): Result<T, E> {
+        return Result.err(error);
+    }
+
+    okOrElse<E>(errorSupplier: () => E): Result<T, E> {
+        return Result.err(errorSupplier());
+    }
+
     matches<U>(cases: Cases<T, U>): U {
         return cases.empty();
     }
 
+    mapAsync<U>(mapper: (value: T) => U | PromiseLike<U>): AsyncOptional<NonNullable<U>> {
+        return AsyncOptional.empty();
+    }
+
+    flatMapAsync<U>(mapper: (value: T) => Optional<U> | PromiseLike<Optional<U>>): AsyncOptional<U> {
+        return AsyncOptional.empty();
+    }
+
+    filterAsync(predicate: (value: T) => boolean | PromiseLike<boolean>): AsyncOptional<T> {
+        return AsyncOptional.of<T>(this);
+    }
+
+    orAsync(supplier: () => Optional<T> | PromiseLike<Optional<T>>): AsyncOptional<T> {
+        return AsyncOptional.from(Promise.resolve().then(supplier));
+    }
+
+    orElseGetAsync(supplier: () => T | PromiseLike<T>): Promise<T> {
+        return Promise.resolve().then(supplier);
+    }
+
+    toPromise(): Promise<T> {
+        return Promise.resolve().then(() => this.get());
+    }
+
     toJSON(key: string): unknown {
-        return null;
+        return jsonMode === "tagged" ? this.toOption() : null;
+    }
+
+    *[Symbol.iterator](): Iterator<T, undefined, undefined> {
+        return undefined;
+    }
+
+    toArray(): T[] {
+        return [];
+    }
+
+    equals(other: Optional<T>, equality?: (left: T, right: T) => boolean): boolean {
+        return other.isEmpty();
+    }
+
+    hashCode(hasher?: (value: T) => number): number {
+        return 0;
+    }
+
+    toString(): string {
+        return "Optional.empty";
+    }
+
+    [inspect](): string {
+        return this.toString();
+    }
+}
+
+/**
+ * The empty `Optional` shared by all empty `Optional`s produced outside of debug mode.
+ */
+const sharedEmpty: EmptyOptional<any> = new EmptyOptional();
+
+/**
+ * An `Optional` whose content is evaluated lazily on the first terminal operation and then memoized.
+ * Intermediate operations such as `map`, `filter` and `flatMap` return lazy `Optional`s as well.
+ */
+class LazyOptional<T> extends Optional<T> {
+    private supplier: (() => Optional<T>) | undefined;
+    private resolved: Optional<T> | undefined;
+
+    constructor(supplier: () => Optional<T>) {
+        super();
+        this.supplier = supplier;
+    }
+
+    private resolve(): Optional<T> {
+        if (this.resolved === undefined) {
+            this.resolved = this.supplier!();
+            this.supplier = undefined;
+        }
+        return this.resolved;
+    }
+
+    get kind(): "present" | "empty" {
+        return this.resolve().kind;
+    }
+
+    /**
+     * The payload, which is accessible after `isPresent` has returned `true`.
+     */
+    get value(): T {
+        return this.resolve().get();
+    }
+
+    isPresent(): this is PresentOptional<T> {
+        return this.resolve().isPresent();
+    }
+
+    narrow(): PresentOptional<T> | EmptyOptional<T> {
+        return this.resolve().narrow();
+    }
+
+    get(message?: string): T {
+        return this.resolve().get(message);
+    }
+
+    ifPresent(consumer: (value: T) => void): void {
+        this.resolve().ifPresent(consumer);
+    }
+
+    ifPresentOrElse(consumer: (value: T) => void, emptyAction: () => void): void {
+        this.resolve().ifPresentOrElse(consumer, emptyAction);
+    }
+
+    filter<S extends T>(predicate: (value: T) => value is S): Optional<S>;
+    filter(predicate: (value: T) => boolean): Optional<T>;
+    filter(predicate: (value: T) => boolean): Optional<T> {
+        return new LazyOptional(() => this.resolve().filter(predicate));
+    }
+
+    map<U extends {} | null | undefined>(mapper: (value: T) => U): Optional<NonNullable<U>>;
+    map<U>(mapper: (value: T) => UnknownResult<U>): Optional<unknown>;
+    map<U>(mapper: (value: T) => U): Optional<NonNullable<U>> {
+        return new LazyOptional(() => this.resolve().map(mapper));
+    }
+
+    flatMap<U>(mapper: (value: T) => Optional<U>): Optional<U> {
+        return new LazyOptional(() => this.resolve().flatMap(mapper));
+    }
+
+    or(supplier: () => Optional<T>): Optional<T> {
+        return new LazyOptional(() => this.resolve().or(supplier));
+    }
+
+    zip<U>(other: Optional<U>): Optional<[T, U]> {
+        return new LazyOptional(() => this.resolve().zip(other));
+    }
+
+    zipWith<U, R>(other: Optional<U>, combiner: (left: T, right: U) => R): Optional<NonNullable<R>> {
+        return new LazyOptional(() => this.resolve().zipWith(other, combiner));
+    }
+
+    and<U>(other: Optional<U>): Optional<U> {
+        return new LazyOptional(() => this.resolve().and(other));
+    }
+
+    xor(other: Optional<T>): Optional<T> {
+        return new LazyOptional(() => this.resolve().xor(other));
+    }
+
+    orElse(another: T): T {
+        return this.resolve().orElse(another);
+    }
+
+    orElseGet(supplier: () => T): T {
+        return this.resolve().orElseGet(supplier);
+    }
+
+    orElseThrow<U>(errorSupplier: () => U): T {
+        return this.resolve().orElseThrow(errorSupplier);
+    }
+
+    orNull(): T | null {
+        return this.resolve().orNull();
+    }
+
+    orUndefined(): T | undefined {
+        return this.resolve().orUndefined();
+    }
+
+    toOption(): Option<T> {
+        return this.resolve().toOption();
+    }
+
+    okOr<E>(error: E): Result<T, E> {
+        return this.resolve().okOr(error);
+    }
+
+    okOrElse<E>(errorSupplier: () => E): Result<T, E> {
+        return this.resolve().okOrElse(errorSupplier);
+    }
+
+    matches<U>(cases: Cases<T, U>): U {
+        return this.resolve().matches(cases);
+    }
+
+    mapAsync<U>(mapper: (value: T) => U | PromiseLike<U>): AsyncOptional<NonNullable<U>> {
+        return this.resolve().mapAsync(mapper);
+    }
+
+    flatMapAsync<U>(mapper: (value: T) => Optional<U> | PromiseLike<Optional<U>>): AsyncOptional<U> {
+        return this.resolve().flatMapAsync(mapper);
+    }
+
+    filterAsync(predicate: (value: T) => boolean | PromiseLike<boolean>): AsyncOptional<T> {
+        return this.resolve().filterAsync(predicate);
+    }
+
+    orAsync(supplier: () => Optional<T> | PromiseLike<Optional<T>>): AsyncOptional<T> {
+        return this.resolve().orAsync(supplier);
+    }
+
+    orElseGetAsync(supplier: () => T | PromiseLike<T>): Promise<T> {
+        return this.resolve().orElseGetAsync(supplier);
+    }
+
+    toPromise(): Promise<T> {
+        return this.resolve().toPromise();
+    }
+
+    toJSON(key: string): unknown {
+        return this.resolve().toJSON(key);
+    }
+
+    [Symbol.iterator](): Iterator<T, undefined, undefined> {
+        return this.resolve()[Symbol.iterator]();
+    }
+
+    toArray(): T[] {
+        return this.resolve().toArray();
+    }
+
+    equals(other: Optional<T>, equality?: (left: T, right: T) => boolean): boolean {
+        return this.resolve().equals(other, equality);
+    }
+
+    hashCode(hasher?: (value: T) => number): number {
+        return this.resolve().hashCode(hasher);
+    }
+
+    toString(): string {
+        return this.resolve().toString();
+    }
+
+    [inspect](depth: number, options: unknown, inspectValue?: (value: unknown, options: unknown) => string): string {
+        // inspection does not force evaluation.
+        if (this.resolved === undefined)
+            return "Optional.lazy";
+        return this.resolved.narrow()[inspect](depth, options, inspectValue);
     }
 }
@@ -0,0 +1,64 @@
+import { OptionalMap } from "./optionalMap";
+
+describe("OptionalMap", () => {
+    const createSut = () => new OptionalMap<string, number | undefined>([["a", 1], ["b", undefined]]);
+
+    describe("#get", () => {
+        it("returns a present Optional when the key is present.", () => {
+            expect(createSut().get("a").get()).toBe(1);
+        });
+
+        it("returns a present Optional even when the value is undefined.", () => {
+            expect(createSut().get("b").isPresent()).toBe(true);
+        });
+
+        it("returns an empty Optional when the key is absent.", () => {
+            expect(createSut().get("c").isEmpty()).toBe(true);
+        });
+    });
+
+    describe("#set", () => {
+        it("sets a value and returns itself.", () => {
+            const sut = createSut();
+            expect(sut.set("c", 3)).toBe(sut);
+            expect(sut.get("c").get()).toBe(3);
+            expect(sut.size).toBe(3);
+        });
+    });
+
+    describe("#delete", () => {
+        it("removes the entry and returns the removed value.", () => {
+            const sut = createSut();
+            expect(sut.delete("a").get()).toBe(1);
+            expect(sut.has("a")).toBe(false);
+            expect(sut.delete("a").isEmpty()).toBe(true);
+        });
+    });
+
+    describe("#clear", () => {
+        it("removes all entries.", () => {
+            const sut = createSut();
+            sut.clear();
+            expect(sut.size).toBe(0);
+        });
+    });
+
+    describe("iteration", () => {
+        it("iterates entries, keys and values in insertion order.", () => {
+            const sut = createSut();
+            expect([...sut]).toStrictEqual([["a", 1], ["b", undefined]]);
+            expect([...sut.keys()]).toStrictEqual(["a", "b"]);
+            expect([...sut.values()]).toStrictEqual([1, undefined]);
+        });
+    });
+
+    describe("#toMap", () => {
+        it("returns a copy of the entries as a Map.", () => {
+            const sut = createSut();
+            const actual = sut.toMap();
+            actual.delete("a");
+            expect(sut.has("a")).toBe(true);
+            expect(actual.size).toBe(1);
+        });
+    });
+});
@@ -0,0 +1,110 @@
+import { Optional } from "./optional.js";
+import { registerModule } from "./stack.js";
+
+registerModule();
+
+/**
+ * A `Map` whose `get` returns an `Optional`.
+ *
+ * `OptionalMap<K, V>` wraps a `Map<K, V>` and provides the same operations,
+ * except that `get` returns an `Optional<V>` which is empty if and only if the key is absent.
+ */
+export class OptionalMap<K, V> implements Iterable<[K, V]> {
+    private readonly map: Map<K, V>;
+
+    /**
+     * Creates an `OptionalMap` with the given `entries`.
+     *
+     * @param entries initial entries, or a `Map` whose entries are copied
+     */
+    constructor(entries?: Iterable<readonly [K, V]> | null) {
+        this.map = new Map(entries ?? []);
+    }
+
+    /**
+     * The number of entries.
+     */
+    get size(): number {
+        return this.map.size;
+    }
+
+    /**
+     * Returns an `Optional` of the value of the given `key`, which is empty if the key is absent.
+     *
+     * @param key a key to look up
+     * @see Optional.get
+     */
+    get(key: K): Optional<V> {
+        return Optional.get(this.map, key);
+    }
+
+    /**
+     * Returns whether the given `key` is present or not.
+     *
+     * @param key a key
+     */
+    has(key: K): boolean {
+        return this.map.has(key);
+    }
+
+    /**
+     * Sets the given `value` to the given `key`, and returns `this`.
+     *
+     * @param key a key
+     * @param value a value
+     */
+    set(key: K, value: V): this {
+        this.map.set(key, value);
+        return this;
+    }
+
+    /**
+     * Removes the entry of the given `key`, and returns an `Optional` of the removed value.
+     *
+     * @param key a key
+     */
+    delete(key: K): Optional<V> {
+        const removed = this.get(key);
+        this.map.delete(key);
+        return removed;
+    }
+
+    /**
+     * Removes all entries.
+     */
+    clear(): void {
+        this.map.clear();
+    }
+
+    /**
+     * Returns an iterator of the keys.
+     */
+    keys(): IterableIterator<K> {
+        return this.map.keys();
+    }
+
+    /**
+     * Returns an iterator of the values.
+     */
+    values(): IterableIterator<V> {
+        return this.map.values();
+    }
+
+    /**
+     * Returns an iterator of the entries.
+     */
+    entries(): IterableIterator<[K, V]> {
+        return this.map.entries();
+    }
+
+    [Symbol.iterator](): IterableIterator<[K, V]> {
+        return this.map.entries();
+    }
+
+    /**
+     * Returns a new `Map` of the entries.
+     */
+    toMap(): Map<K, V> {
+        return new Map(this.map);
+    }
+}
@@ -0,0 +1,97 @@
+import { Optional } from "./optional";
+
+describe("OptionalMatcher", () => {
+    const describeNumber = (optional: Optional<number>): string => optional.match()
+        .when(0, () => "zero")
+        .when(x => x < 0, x => `negative ${-x}`)
+        .present(x => `positive ${x}`)
+        .empty(() => "none");
+
+    describe("#when", () => {
+        it("matches a payload identical to the given value.", () => {
+            expect(describeNumber(Optional.ofNonNull(0))).toBe("zero");
+        });
+
+        it("matches a payload which satisfies the given predicate.", () => {
+            expect(describeNumber(Optional.ofNonNull(-2))).toBe("negative 2");
+        });
+
+        it("narrows the payload by the given type guard.", () => {
+            const isString = (value: unknown): value is string => typeof value === "string";
+            const actual = Optional.ofNonNull<string | number>("foo").match()
+                .when(isString, value => value.toUpperCase())
+                .present(value => String(value))
+                .empty(() => "");
+            expect(actual).toBe("FOO");
+        });
+
+        it("narrows the payload to the given literal.", () => {
+            const actual: "a" | number = Optional.ofNonNull<"a" | "b">("a").match()
+                .when("a", value => value)
+                .present(value => value.length)
+                .empty(() => 0);
+            expect(actual).toBe("a");
+        });
+    });
+
+    describe("#whenType", () => {
+        const isString = (value: string | number): value is string => typeof value === "string";
+        const isNumber = (value: number): value is number => typeof value === "number";
+
+        it("is exhaustive when the type guards cover the payload type.", () => {
+            const match = (optional: Optional<string | number>) => optional.match()
+                .whenType(isString, value => `string ${value.length}`)
+                .whenType(isNumber, value => `number ${value.toFixed(1)}`)
+                .empty(() => "none");
+            expect(match(Optional.ofNonNull("foo"))).toBe("string 3");
+            expect(match(Optional.ofNonNull(1))).toBe("number 1.0");
+            expect(match(Optional.empty())).toBe("none");
+        });
+
+        it("is not exhaustive when the type guards do not cover the payload type.", () => {
+            const matcher = Optional.ofNonNull<string | number>("foo").match()
+                .whenType(isString, value => value);
+            // @ts-expect-error
+            expect(matcher.empty(() => "none")).toBe("foo");
+        });
+
+        it("throws TypeError when no case matches because a type guard lies.", () => {
+            const lie = (value: string | number): value is string | number => false;
+            const matcher = Optional.ofNonNull<string | number>("foo").match().whenType(lie, value => value);
+            expect(() => matcher.empty(() => "none")).toThrow(TypeError);
+        });
+    });
+
+    describe("#present", () => {
+        it("matches a payload which is not matched by the preceding cases.", () => {
+            expect(describeNumber(Optional.ofNonNull(3))).toBe("positive 3");
+        });
+
+        it("is required unless the payload type is covered.", () => {
+            const matcher = Optional.ofNonNull(1).match().when(1, () => "one");
+            // @ts-expect-error
+            expect(matcher.empty(() => "none")).toBe("one");
+        });
+    });
+
+    describe("#empty", () => {
+        it("returns the result of the supplier if it is empty.", () => {
+            expect(describeNumber(Optional.empty())).toBe("none");
+        });
+
+        it("is evaluated with a lazy Optional.", () => {
+            expect(describeNumber(Optional.lazy(() => -1))).toBe("negative 1");
+        });
+    });
+
+    it("applies only the first matching case.", () => {
+        const second = jest.fn(() => "second");
+        const actual = Optional.ofNonNull(1).match()
+            .when(x => x > 0, () => "first")
+            .when(x => x > 0, second)
+            .present(() => "third")
+            .empty(() => "none");
+        expect(actual).toBe("first");
+        expect(second).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,112 @@
+import { Option } from "./types.js";
+
+/**
+ * A type of the argument of `OptionalMatcher#empty` when some payloads of type `R` are not matched yet,
+ * which makes a non-exhaustive matcher a compile error.
+ */
+export interface NonExhaustive<R> {
+    readonly unmatched: R;
+}
+
+/**
+ * A fluent matcher of an `Optional`, which is obtained by `Optional#match`.
+ *
+ * Cases are tried in the order they are added and the first matching one wins.
+ * The type parameter `R` is the type of payloads which are not matched yet;
+ * `empty` closes the matcher and returns the result, and it compiles only after `R` is narrowed to `never`,
+ * either by `present` or by `whenType` cases which cover the payload type.
+ *
+ * ```ts
+ * const label: string = Optional.ofNullable(value).match()
+ *     .when(0, () => "zero")
+ *     .when(x => x < 0, x => `negative ${-x}`)
+ *     .present(x => `positive ${x}`)
+ *     .empty(() => "none");
+ * ```
+ */
+export class OptionalMatcher<T, R, U> {
+    private readonly option: Option<T>;
+    private readonly matched: Option<U>;
+
+    private constructor(option: Option<T>, matched: Option<U>) {
+        this.option = option;
+        this.matched = matched;
+    }
+
+    /**
+     * Adds a case which matches a payload.
+     *
+     * If the first argument is a function, it is used as a predicate (or a type guard) which tests the payload,
+     * otherwise it matches a payload which is identical (`===`) to it.
+     * Unlike `whenType`, this case never narrows the type of unmatched payloads,
+     * since a predicate (or a value) rarely covers all the payloads of its type.
+     *
+     * @param pattern a predicate (or a type guard) to test the payload, or a value to compare with it
+     * @param mapper a mapper to apply the matched payload
+     */
+    when<S extends R, V>(guard: (value: R) => value is S, mapper: (value: S) => V): OptionalMatcher<T, R, U | V>;
+    when<V>(predicate: (value: R) => boolean, mapper: (value: R) => V): OptionalMatcher<T, R, U | V>;
+    when<S extends R, V>(value: S, mapper: (value: S) => V): OptionalMatcher<T, R, U | V>;
+    when<V>(pattern: unknown, mapper: (value: any) => V): OptionalMatcher<T, R, U | V> {
+        const test = typeof pattern === "function"
+            ? pattern as (value: unknown) => boolean
+            : (value: unknown) => value === pattern;
+        return this.on(test, mapper);
+    }
+
+    /**
+     * Adds a case which matches a payload of the type asserted by the given type `guard`,
+     * and excludes the type from unmatched payloads.
+     *
+     * @param guard a type guard to test the payload
+     * @param mapper a mapper to apply the matched payload
+     */
+    whenType<S extends R, V>(
+        guard: (value: R) => value is S,
+        mapper: (value: S) => V,
+    ): OptionalMatcher<T, Exclude<R, S>, U | V> {
+        return this.on(guard, mapper);
+    }
+
+    /**
+     * Adds a case which matches any payload not matched by the preceding cases.
+     *
+     * @param mapper a mapper to apply the payload
+     */
+    present<V>(mapper: (value: R) => V): OptionalMatcher<T, never, U | V> {
+        return this.on(() => true, mapper);
+    }
+
+    /**
+     * Adds a case for an empty `Optional` and returns the result of the first matching case.
+     * This method compiles only if all the payloads are matched by the preceding cases.
+     *
+     * @param supplier a supplier of the result for an empty `Optional`
+     * @throws {TypeError} when no case matches the payload, which happens only if a type guard lies.
+     */
+    empty<V>(supplier: [R] extends [never] ? () => V : NonExhaustive<R>): U | V {
+        const option = this.option;
+        const matched = this.matched;
+        if (option.kind === "empty")
+            return (supplier as () => V)();
+        if (matched.kind === "present")
+            return matched.value;
+        throw new TypeError(`No case matched the payload ${String(option.value)}.`);
+    }
+
+    private on<Q, V>(test: (value: any) => boolean, mapper: (value: any) => V): OptionalMatcher<T, Q, U | V> {
+        const option = this.option;
+        if (this.matched.kind === "present" || option.kind === "empty" || !test(option.value))
+            return new OptionalMatcher<T, Q, U | V>(option, this.matched);
+        return new OptionalMatcher<T, Q, U | V>(option, { kind: "present", value: mapper(option.value) });
+    }
+
+    /**
+     * Returns a matcher of the given `option`.
+     *
+     * @param option an `Option` (or an `Optional` converted by `toOption`) to match
+     */
+    static of<T>(option: Option<T>): OptionalMatcher<T, T, never> {
+        return new OptionalMatcher(option, { kind: "empty" });
+    }
+}
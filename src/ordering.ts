@@ -0,0 +1,17 @@
+/**
+ * Values which `naturalOrder` compares meaningfully.
+ */
+type Ordered = number | string | bigint | Date;
+
+/**
+ * Compares the given two values by `<` and `>`, which is the default comparator of payloads.
+ * It is suitable for numbers, strings, bigints and `Date`s.
+ */
+export function naturalOrder(left: unknown, right: unknown): number {
+    if ((left as Ordered) < (right as Ordered))
+        return -1;
+    else if ((left as Ordered) > (right as Ordered))
+        return 1;
+    else
+        return 0;
+}
@@ -0,0 +1,159 @@
+import { Result } from "./result";
+import { Either, ResultCases } from "./types";
+
+describe("Result", () => {
+    const value: string = "foo";
+    const error: Error = new Error("failed");
+    const sutOk: Result<string, Error> = Result.ok(value);
+    const sutErr: Result<string, Error> = Result.err(error);
+
+    describe("#isOk", () => {
+        it("returns true when it is ok.", () => {
+            expect(sutOk.isOk()).toBe(true);
+        });
+
+        it("returns false when it is an error.", () => {
+            expect(sutErr.isOk()).toBe(false);
+        });
+    });
+
+    describe("#isErr", () => {
+        it("returns false when it is ok.", () => {
+            expect(sutOk.isErr()).toBe(false);
+        });
+
+        it("returns true when it is an error.", () => {
+            expect(sutErr.isErr()).toBe(true);
+        });
+    });
+
+    describe("#get", () => {
+        it("returns the value when it is ok.", () => {
+            expect(sutOk.get()).toBe(value);
+        });
+
+        it("throws an exception when it is an error.", () => {
+            expect(() => sutErr.get()).toThrow(TypeError);
+        });
+    });
+
+    describe("#getErr", () => {
+        it("throws an exception when it is ok.", () => {
+            expect(() => sutOk.getErr()).toThrow(TypeError);
+        });
+
+        it("returns the error when it is an error.", () => {
+            expect(sutErr.getErr()).toBe(error);
+        });
+    });
+
+    describe("#map", () => {
+        it("maps the value when it is ok.", () => {
+            expect(sutOk.map(x => x.length).get()).toBe(value.length);
+        });
+
+        it("keeps the error when it is an error.", () => {
+            expect(sutErr.map(x => x.length).getErr()).toBe(error);
+        });
+    });
+
+    describe("#flatMap", () => {
+        const parse = (x: string): Result<number, Error> =>
+            x.length > 0 ? Result.ok(x.length) : Result.err(new Error("empty"));
+
+        it("returns the result of the mapper when it is ok.", () => {
+            expect(sutOk.flatMap(parse).get()).toBe(value.length);
+            expect(Result.ok<string, Error>("").flatMap(parse).isErr()).toBe(true);
+        });
+
+        it("keeps the error when it is an error.", () => {
+            expect(sutErr.flatMap(parse).getErr()).toBe(error);
+        });
+    });
+
+    describe("#mapErr", () => {
+        it("keeps the value when it is ok.", () => {
+            expect(sutOk.mapErr(e => e.message).get()).toBe(value);
+        });
+
+        it("maps the error when it is an error.", () => {
+            expect(sutErr.mapErr(e => e.message).getErr()).toBe(error.message);
+        });
+    });
+
+    describe("#orElse", () => {
+        it("returns the value when it is ok.", () => {
+            expect(sutOk.orElse("bar")).toBe(value);
+        });
+
+        it("returns the given value when it is an error.", () => {
+            expect(sutErr.orElse("bar")).toBe("bar");
+        });
+    });
+
+    describe("#orElseGet", () => {
+        it("returns the value when it is ok.", () => {
+            expect(sutOk.orElseGet(e => e.message)).toBe(value);
+        });
+
+        it("returns the value mapped from the error when it is an error.", () => {
+            expect(sutErr.orElseGet(e => e.message)).toBe(error.message);
+        });
+    });
+
+    describe("#match", () => {
+        const cases: ResultCases<string, Error, number> = {
+            ok: x => x.length,
+            err: e => -1,
+        };
+
+        it("returns the result of 'ok' case when it is ok.", () => {
+            expect(sutOk.match(cases)).toBe(value.length);
+        });
+
+        it("returns the result of 'err' case when it is an error.", () => {
+            expect(sutErr.match(cases)).toBe(-1);
+        });
+    });
+
+    describe("#toOptional", () => {
+        it("returns a present Optional when it is ok.", () => {
+            expect(sutOk.toOptional().get()).toBe(value);
+        });
+
+        it("returns an empty Optional when it is an error.", () => {
+            expect(sutErr.toOptional().isEmpty()).toBe(true);
+        });
+    });
+
+    describe("#toEither and #from", () => {
+        it("converts an ok Result into an Either and back.", () => {
+            const either = sutOk.toEither();
+            expect(either).toStrictEqual({ kind: "ok", value });
+            expect(Result.from(either).get()).toBe(value);
+        });
+
+        it("converts an error Result into an Either and back.", () => {
+            const either = sutErr.toEither();
+            expect(either).toStrictEqual({ kind: "err", error });
+            expect(Result.from(either).getErr()).toBe(error);
+        });
+
+        it("throws an exception when it is given a value which is not Either type.", () => {
+            const malformed: any = {};
+            expect(() => Result.from(malformed)).toThrow(TypeError);
+        });
+    });
+
+    describe("#toJSON", () => {
+        it("serializes a Result as its Either form.", () => {
+            const sut = { foo: Result.ok(value), bar: Result.err("failed") };
+            const actual = JSON.parse(JSON.stringify(sut));
+            const expected: { foo: Either<string, never>, bar: Either<never, string> } = {
+                foo: { kind: "ok", value },
+                bar: { kind: "err", error: "failed" },
+            };
+            expect(actual).toStrictEqual(expected);
+        });
+    });
+});
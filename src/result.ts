@@ -0,0 +1,268 @@
+import { Optional } from "./optional.js";
+import { registerModule } from "./stack.js";
+import { Either, ResultCases } from "./types.js";
+
+registerModule();
+
+/**
+ * `Result` is a companion type of `Optional` which carries the reason of absence.
+ *
+ * `Result<T, E>` is a type which contains *either* a *value* of type `T` (*ok*)
+ * *or* an *error* of type `E` (*err*).
+ * It provides a common interface regardless of whether an instance is *ok* or is *err*.
+ */
+export abstract class Result<T, E> {
+    /**
+     * Returns whether this is ok or not.
+     *
+     * If this contains a value, be `true`, otherwise be `false`.
+     */
+    abstract isOk(): boolean;
+
+    /**
+     * Returns whether this is an error or not.
+     *
+     * If this contains an error, be `true`, otherwise be `false`.
+     * This method is negation of `Result#isOk`.
+     */
+    isErr(): boolean {
+        return !this.isOk();
+    }
+
+    /**
+     * Force to retrieve the value.
+     * If this is ok, returns the value, otherwise throws `TypeError`.
+     *
+     * @throws {TypeError} if this is an error.
+     */
+    abstract get(): T;
+
+    /**
+     * Force to retrieve the error.
+     * If this is an error, returns the error, otherwise throws `TypeError`.
+     *
+     * @throws {TypeError} if this is ok.
+     */
+    abstract getErr(): E;
+
+    /**
+     * Maps a value with a mapper.
+     *
+     * If this is ok, returns an ok `Result` whose value is the result of applying the given `mapper`,
+     * otherwise returns an error `Result` with the same error.
+     *
+     * @param mapper a mapper to apply the value, if ok
+     */
+    abstract map<U>(mapper: (value: T) => U): Result<U, E>;
+
+    /**
+     * Maps a value with a mapper which returns `Result` as a result.
+     *
+     * If this is ok, returns the result of applying the given `mapper` to the value,
+     * otherwise returns an error `Result` with the same error.
+     *
+     * @param mapper a mapper to apply the value, if ok
+     */
+    abstract flatMap<U>(mapper: (value: T) => Result<U, E>): Result<U, E>;
+
+    /**
+     * Maps an error with a mapper.
+     *
+     * If this is an error, returns an error `Result` whose error is the result of applying the given `mapper`,
+     * otherwise returns an ok `Result` with the same value.
+     *
+     * @param mapper a mapper to apply the error, if an error
+     */
+    abstract mapErr<F>(mapper: (error: E) => F): Result<T, F>;
+
+    /**
+     * If this is ok, returns the value, otherwise returns `another`.
+     *
+     * @param another an another value
+     */
+    abstract orElse(another: T): T;
+
+    /**
+     * If this is ok, returns the value,
+     * otherwise returns the result of applying the given `mapper` to the error.
+     *
+     * @param mapper a mapper which provides another value from the error
+     */
+    abstract orElseGet(mapper: (error: E) => T): T;
+
+    /**
+     * Returns an appropriate result by emulating pattern matching with the given `cases`.
+     * If this is ok, returns the result of `ok` case,
+     * otherwise returns the result of `err` case.
+     *
+     * @param cases cases for this `Result`
+     */
+    abstract match<U>(cases: ResultCases<T, E, U>): U;
+
+    /**
+     * Converts this to an `Optional`, discarding the error.
+     * If this is ok, returns an `Optional` as if applying `Optional.ofNullable` to the value,
+     * otherwise returns an empty `Optional`.
+     */
+    abstract toOptional(): Optional<NonNullable<T>>;
+
+    /**
+     * Converts this to an `Either`.
+     */
+    abstract toEither(): Either<T, E>;
+
+    /**
+     * This method is called by JSON.stringify automatically.
+     * A `Result` is serialized as its `Either` form.
+     *
+     * @param key property name
+     * @see https://developer.mozilla.org/docs/Web/JavaScript/Reference/Global_Objects/JSON/stringify#toJSON()_behavior
+     */
+    abstract toJSON(key: string): unknown;
+
+    /**
+     * Returns an ok `Result` whose value is the given `value`.
+     *
+     * @param value a value
+     */
+    static ok<T, E = never>(value: T): Result<T, E> {
+        return new OkResult<T, E>(value);
+    }
+
+    /**
+     * Returns an error `Result` whose error is the given `error`.
+     *
+     * @param error an error
+     */
+    static err<E, T = never>(error: E): Result<T, E> {
+        return new ErrResult<T, E>(error);
+    }
+
+    /**
+     * Retrieve the given `either` as a `Result`.
+     *
+     * @param either an `Either` object to retrieve
+     * @throws {TypeError} when the given `either` does not have a valid `kind` attribute.
+     */
+    static from<T, E>(either: Either<T, E>): Result<T, E> {
+        switch (either.kind) {
+            case "ok": return Result.ok(either.value);
+            case "err": return Result.err(either.error);
+            default: throw new TypeError("The passed value was not an Either type.");
+        }
+    }
+}
+
+class OkResult<T, E> extends Result<T, E> {
+    value: T;
+
+    constructor(value: T) {
+        super();
+        this.value = value;
+    }
+
+    isOk(): boolean {
+        return true;
+    }
+
+    get(): T {
+        return this.value;
+    }
+
+    getErr(): E {
+        throw new TypeError("The result is not an error.");
+    }
+
+    map<U>(mapper: (value: T) => U): Result<U, E> {
+        return Result.ok(mapper(this.value));
+    }
+
+    flatMap<U>(mapper: (value: T) => Result<U, E>): Result<U, E> {
+        return mapper(this.value);
+    }
+
+    mapErr<F>(mapper: (error: E) => F): Result<T, F> {
+        return Result.ok(this.value);
+    }
+
+    orElse(another: T): T {
+        return this.value;
+    }
+
+    orElseGet(mapper: (error: E) => T): T {
+        return this.value;
+    }
+
+    match<U>(cases: ResultCases<T, E, U>): U {
+        return cases.ok(this.value);
+    }
+
+    toOptional(): Optional<NonNullable<T>> {
+        return Optional.ofNullable(this.value!);
+    }
+
+    toEither(): Either<T, E> {
+        return { kind: "ok", value: this.value };
+    }
+
+    toJSON(key: string): unknown {
+        return this.toEither();
+    }
+}
+
+class ErrResult<T, E> extends Result<T, E> {
+    error: E;
+
+    constructor(error: E) {
+        super();
+        this.error = error;
+    }
+
+    isOk(): boolean {
+        return false;
+    }
+
+    get(): T {
+        throw new TypeError("The result is not ok.");
+    }
+
+    getErr(): E {
+        return this.error;
+    }
+
+    map<U>(mapper: (value: T) => U): Result<U, E> {
+        return Result.err(this.error);
+    }
+
+    flatMap<U>(mapper: (value: T) => Result<U, E>): Result<U, E> {
+        return Result.err(this.error);
+    }
+
+    mapErr<F>(mapper: (error: E) => F): Result<T, F> {
+        return Result.err(mapper(this.error));
+    }
+
+    orElse(another: T): T {
+        return another;
+    }
+
+    orElseGet(mapper: (error: E) => T): T {
+        return mapper(this.error);
+    }
+
+    match<U>(cases: ResultCases<T, E, U>): U {
+        return cases.err(this.error);
+    }
+
+    toOptional(): Optional<NonNullable<T>> {
+        return Optional.empty();
+    }
+
+    toEither(): Either<T, E> {
+        return { kind: "err", error: this.error };
+    }
+
+    toJSON(key: string): unknown {
+        return this.toEither();
+    }
+}
@@ -0,0 +1,34 @@
+/**
+ * Files of the modules of this library, which are skipped when looking for the call site of an operation.
+ */
+const libraryFiles = new Set<string>();
+
+/**
+ * Extracts the file from a frame of a stack trace, such as `at f (/path/to/file.js:12:34)`.
+ */
+function fileOf(frame: string | undefined): string | undefined {
+    return frame?.match(/([^\s(]+):\d+:\d+\)?$/)?.[1];
+}
+
+/**
+ * Registers the module which calls this function as a module of this library.
+ * It must be called at the top level of the module.
+ */
+export function registerModule(): void {
+    // the frames are this function and the top level of the calling module.
+    const file = fileOf(new Error().stack?.split("\n")[2]);
+    if (file !== undefined)
+        libraryFiles.add(file);
+}
+
+/**
+ * Returns the first frame of the current stack trace which is outside of this library, if any.
+ */
+export function callSite(): string | undefined {
+    // skips the message and the frame of this function.
+    const frames = new Error().stack?.split("\n").slice(2) ?? [];
+    return frames.find(frame => {
+        const file = fileOf(frame);
+        return file !== undefined && !libraryFiles.has(file);
+    })?.trim();
+}
@@ -1,3 +1,5 @@
+import { Optional } from "./optional.js";
+
 /**
  * An interface that represents respective cases of pattern matching of `Optional`.
  */
@@ -28,3 +30,199 @@ export interface Present<T> {
 export interface Empty<T> {
     kind: "empty";
 }
+
+/**
+ * A mode of JSON serialization of `Optional`.
+ *
+ * - `"bare"`: a present `Optional` is serialized as its payload and an empty one as `null` (default).
+ * - `"tagged"`: an `Optional` is serialized as its `Option` form, so that it can be restored losslessly.
+ */
+export type JSONMode = "bare" | "tagged";
+
+/**
+ * A location in a JSON value, which consists of property names and array indexes from the root.
+ */
+export type JSONPath = ReadonlyArray<string | number>;
+
+/**
+ * A selector of locations in a JSON value which should be restored as `Optional`s.
+ *
+ * It is either an array of dot-separated path patterns (e.g. `"users.*.nickname"`, where `*` matches any
+ * property name or array index), or a predicate which receives a path and a value at the path.
+ */
+export type OptionalSelector = ReadonlyArray<string> | ((path: JSONPath, value: unknown) => boolean);
+
+/**
+ * Options of `Optional.serialize` and `Optional.deserialize`.
+ */
+export interface JSONOptions {
+    /**
+     * A mode of JSON serialization. Defaults to the mode configured by `Optional.configureJSON`.
+     */
+    mode?: JSONMode;
+
+    /**
+     * Indentation passed to `JSON.stringify`.
+     */
+    space?: string | number;
+}
+
+/**
+ * A type which maps an array (or a tuple) of `Optional`s to the array (or the tuple) of their payload types.
+ * For example, `Payloads<[Optional<string>, Optional<number>]>` is `[string, number]`.
+ */
+export type Payloads<T extends ReadonlyArray<Optional<unknown>>> = {
+    -readonly [K in keyof T]: T[K] extends Optional<infer U> ? U : never;
+};
+
+/**
+ * A type of the non-null value of property `K` of `T`, which is used by `Optional#path`.
+ * For example, `Property<{ a: string | null }, "a">` is `string`.
+ */
+export type Property<T, K extends keyof T> = NonNullable<T[K]>;
+
+/**
+ * A filter of errors which are captured by `Optional.try`, `Optional.fromThrowable` and `Optional#mapTry`.
+ * It is either an array of error classes, one of which a captured error must be an instance of,
+ * or a predicate which returns `true` for an error to capture.
+ * Errors which do not pass the filter are rethrown.
+ */
+export type ErrorFilter = ReadonlyArray<new (...args: any[]) => unknown> | ((error: unknown) => boolean);
+
+/**
+ * A function which compares two values,
+ * returning a negative number, zero or a positive number
+ * when `left` is less than, equal to or greater than `right` respectively.
+ */
+export type Comparator<T> = (left: T, right: T) => number;
+
+/**
+ * Options of `Optional.comparator` and `Optional.comparing`.
+ */
+export interface ComparatorOptions {
+    /**
+     * Whether empty `Optional`s are ordered before (`"first"`) or after (`"last"`) present ones.
+     * Defaults to `"first"`.
+     */
+    empty?: "first" | "last";
+}
+
+/**
+ * A map-like object which can be looked up by `Optional.get`, such as `Map`, `ReadonlyMap` and `WeakMap`.
+ */
+export interface MapLike<K, V> {
+    has(key: K): boolean;
+    get(key: K): V | undefined;
+}
+
+/**
+ * A union of falsy types, which are excluded from the payload type by `Optional.ofTruthy`.
+ * `NaN` and `0n` are falsy as well, but they cannot be expressed as distinct types.
+ */
+export type Falsy = false | 0 | "" | null | undefined;
+
+/**
+ * Types which `Optional.wrapFields` and `Optional.unwrapFields` leave as they are instead of converting their fields.
+ */
+type Opaque =
+    Optional<any> | Date | RegExp | Map<any, any> | Set<any> | Promise<any> | ArrayBuffer | ArrayBufferView
+    | ((...args: any[]) => any);
+
+/**
+ * A type which `Optional.wrapFields` converts `T` to.
+ *
+ * Fields of `T` named by `K` (all the fields by default) become `Optional`s of their non-null types,
+ * and nested objects (including class instances) and arrays are converted recursively,
+ * where all the fields are converted.
+ * For example, `Optionalize<{ a: string | null, b: Array<{ c?: number }> }>` is
+ * `{ a: Optional<string>, b: Optional<Array<{ c?: Optional<number> }>> }`.
+ */
+export type Optionalize<T, K extends keyof T = keyof T> =
+    T extends Opaque ? T
+    : T extends ReadonlyArray<unknown> ? { [I in keyof T]: Optionalize<T[I]> }
+    : T extends object ? { [P in keyof T]: P extends K ? OptionalField<T[P]> : T[P] }
+    : T;
+
+/**
+ * A type of a field converted by `Optional.wrapFields`,
+ * where a field which is already an `Optional` and a field of a function type (such as a method) are kept.
+ */
+type OptionalField<V> =
+    0 extends (1 & V) ? Optional<any>
+    : [V] extends [(...args: any[]) => any] ? V
+    : [NonNullable<V>] extends [Optional<infer U>] ? Optional<U>
+    : Optional<Optionalize<NonNullable<V>>>;
+
+/**
+ * A type which `Optional.unwrapFields` converts `T` to.
+ *
+ * `Optional`s in the fields of `T`, and in nested objects and arrays, are replaced with their payload types,
+ * or `N` (`null` by default) if empty.
+ * For example, `Nullablize<{ a: Optional<string>, b: Array<Optional<number>> }>` is
+ * `{ a: string | null, b: Array<number | null> }`.
+ */
+export type Nullablize<T, N extends null | undefined = null> =
+    T extends Opaque ? T
+    : T extends ReadonlyArray<unknown> ? { [I in keyof T]: NullableField<T[I], N> }
+    : T extends object ? { [P in keyof T]: NullableField<T[P], N> }
+    : T;
+
+/**
+ * A type of a field converted by `Optional.unwrapFields`.
+ */
+type NullableField<V, N extends null | undefined> =
+    V extends Optional<infer U> ? Nullablize<U, N> | N : Nullablize<V, N>;
+
+/**
+ * A type of a result of a mapper passed to the overload of `Optional#map` (and its variants) for `unknown` results.
+ * It is `unknown` only if `U` is `unknown` (or `any`), otherwise `never`;
+ * so a mapper returning `void` matches neither overload and is rejected at compile time.
+ */
+export type UnknownResult<U> = U & ([unknown] extends [U] ? unknown : never);
+
+/**
+ * A result of `Optional.partition`.
+ */
+export interface Partition<T> {
+    /**
+     * Payloads of present `Optional`s, in the original order.
+     */
+    present: T[];
+
+    /**
+     * The number of empty `Optional`s.
+     */
+    empty: number;
+}
+
+/**
+ * An interface that represents respective cases of pattern matching of `Result`.
+ */
+export interface ResultCases<T, E, U> {
+    /**
+     * A mapper that maps a value for case of a `Result` is ok.
+     */
+    ok: (value: T) => U;
+
+    /**
+     * A mapper that maps an error for case of a `Result` is an error.
+     */
+    err: (error: E) => U;
+}
+
+/**
+ * An alias of algebraic, prototype-free JavaScript object which represents `Result`.
+ * Objects of this type are provided by `Result.toEither`
+ * and they can be retrieved as `Result` by `Result.from`.
+ */
+export type Either<T, E> = Ok<T> | Err<E>;
+
+export interface Ok<T> {
+    kind: "ok";
+    value: T;
+}
+
+export interface Err<E> {
+    kind: "err";
+    error: E;
+}